@@ -0,0 +1,87 @@
+// Serveur de synchro en mémoire pour tester l'API décrite dans le README.
+// Usage : npm run mock-server [-- port]
+import http from "node:http";
+
+const port = Number(process.argv[2] ?? 8787);
+
+// boardId -> { revision, records: Map(taskId -> { id, rev, deleted, task }) }
+const boards = new Map();
+
+function boardFor(id) {
+  if (!boards.has(id)) boards.set(id, { revision: 0, records: new Map() });
+  return boards.get(id);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+  const match = url.pathname.match(/^\/boards\/([^/]+)\/tasks\/?$/);
+  if (!match) return send(res, 404, { error: "Not found" });
+  const board = boardFor(decodeURIComponent(match[1]));
+
+  if (req.method === "GET") {
+    const since = Number(url.searchParams.get("since") ?? 0);
+    const changes = [...board.records.values()].filter((r) => r.rev > since);
+    return send(res, 200, { revision: board.revision, changes });
+  }
+
+  if (req.method === "POST") {
+    let body;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { error: "Invalid JSON" });
+    }
+    const results = [];
+    for (const change of Array.isArray(body.changes) ? body.changes : []) {
+      if (typeof change?.id !== "string") continue;
+      const current = board.records.get(change.id);
+      // Version de base périmée : le client doit d'abord récupérer la version du serveur
+      if (current && current.rev > Number(change.baseRev ?? 0)) {
+        results.push({ id: change.id, ok: false, rev: current.rev });
+        continue;
+      }
+      board.revision += 1;
+      const deleted = change.deleted === true;
+      board.records.set(change.id, {
+        id: change.id,
+        rev: board.revision,
+        deleted,
+        task: deleted ? undefined : change.task,
+      });
+      results.push({ id: change.id, ok: true, rev: board.revision });
+    }
+    return send(res, 200, { revision: board.revision, results });
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock sync server listening on http://localhost:${port}`);
+});
@@ -1,12 +1,29 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 import {
   DndContext,
+  DragOverlay,
   closestCenter,
+  pointerWithin,
+  KeyboardSensor,
   PointerSensor,
+  useDroppable,
   useSensor,
   useSensors,
+  type Announcements,
+  type CollisionDetection,
   type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
 } from "@dnd-kit/core";
 
 import {
@@ -14,812 +31,8875 @@ import {
   verticalListSortingStrategy,
   useSortable,
   arrayMove,
+  sortableKeyboardCoordinates,
 } from "@dnd-kit/sortable";
 
 import { CSS } from "@dnd-kit/utilities";
 
-type Section = "Morning" | "Midday" | "AfterWork";
+type Section = {
+  id: string;
+  name: string;
+  color: string;
+  // "HH:MM" : rappel quand la section commence
+  startTime?: string;
+  // ordre des cartes : manuel (glisser-déposer) par défaut
+  sort?: SectionSort;
+};
+
+type SectionSort = "manual" | "priority" | "due" | "title";
+
+type Priority = "low" | "medium" | "high";
+
+type Recurrence =
+  | { kind: "daily" }
+  | { kind: "weekdays"; days: number[] }
+  | { kind: "interval"; every: number; start: string }
+  | { kind: "monthly"; day: number };
+
+type Subtask = {
+  id: string;
+  title: string;
+  done: boolean;
+};
+
+// Note du fil de commentaires, en Markdown
+type Note = {
+  id: string;
+  text: string;
+  createdAt: number;
+  editedAt?: number;
+};
+
+// Séance de travail chronométrée (horodatages en ms)
+type TimeSession = {
+  start: number;
+  end: number;
+};
+
+// Minuteur en cours ; `until` : fin d'un Pomodoro ou de la durée prévue
+type RunningTimer = {
+  start: number;
+  until?: number;
+  pomodoro?: boolean;
+};
 
 type Task = {
   id: string;
   title: string;
-  section: Section;
-  category?: string;
+  section: string;
+  tags?: string[];
   done: boolean;
-  comment?: string;
+  // de la plus ancienne à la plus récente
+  notes?: Note[];
   createdAt: number;
   order?: number;
+  recurrence?: Recurrence;
+  subtasks?: Subtask[];
+  // "HH:MM", chaque jour où la tâche est prévue
+  reminder?: string;
+  priority?: Priority;
+  // "YYYY-MM-DD" ou "YYYY-MM-DDTHH:MM"
+  due?: string;
+  sessions?: TimeSession[];
+  timer?: RunningTimer;
+  // durée prévue chaque jour, en minutes ; `autoDone` coche la tâche une fois atteinte
+  planned?: number;
+  autoDone?: boolean;
+  // synchro serveur : dernière modification locale, révision connue du serveur
+  updatedAt?: number;
+  rev?: number;
 };
 
-const STORAGE_KEY = "journey_task_board_v1";
-
-function uid() {
-  return Math.random().toString(36).slice(2) + Date.now().toString(36);
-}
+type DayRecord = {
+  date: string;
+  tasks: Task[];
+  sections?: Section[];
+};
 
-function sectionLabel(s: Section) {
-  return s === "AfterWork" ? "After Work" : s;
-}
+type Tag = {
+  name: string;
+  color: string;
+};
 
-function pct(done: number, total: number) {
-  if (total <= 0) return 0;
-  return Math.round((done / total) * 100);
-}
+type ProgressMode = "parent" | "subtasks";
 
-function clampStr(s: string) {
-  return s.trim().replace(/\s+/g, " ");
-}
+type TaskStatus = "all" | "todo" | "done";
 
-function IconX() {
-  return (
-    <span
-      aria-label="Not done"
-      title="Not done"
-      style={{
-        display: "inline-flex",
-        alignItems: "center",
-        justifyContent: "center",
-        width: 22,
-        height: 22,
-        borderRadius: 6,
-        border: "1px solid rgba(255,0,0,0.35)",
-        color: "rgb(220, 38, 38)",
-        fontWeight: 800,
-        lineHeight: 1,
-      }}
-    >
-      ✕
-    </span>
-  );
-}
+// Critères combinés (ET) ; une liste vide ne filtre pas
+type BoardFilter = {
+  query: string;
+  sections: string[];
+  tags: string[];
+  tagMatch: "any" | "all";
+  status: TaskStatus;
+  // "YYYY-MM-DD", bornes incluses
+  createdFrom: string;
+  createdTo: string;
+};
 
-function IconCheck() {
-  return (
-    <span
-      aria-label="Done"
-      title="Done"
-      style={{
-        display: "inline-flex",
-        alignItems: "center",
-        justifyContent: "center",
-        width: 22,
-        height: 22,
-        borderRadius: 6,
-        border: "1px solid rgba(0,128,0,0.25)",
-        color: "rgb(22, 163, 74)",
-        fontWeight: 800,
-        lineHeight: 1,
-      }}
-    >
-      ✓
-    </span>
-  );
-}
+type SavedView = {
+  id: string;
+  name: string;
+  filter: BoardFilter;
+};
 
-function ProgressRing({ value }: { value: number }) {
-  const r = 22;
-  const c = 2 * Math.PI * r;
-  const dash = (value / 100) * c;
-  return (
-    <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-      <svg width="56" height="56" viewBox="0 0 56 56">
-        <circle
-          cx="28"
-          cy="28"
-          r={r}
-          stroke="rgba(0,0,0,0.10)"
-          strokeWidth="6"
-          fill="none"
-        />
-        <circle
-          cx="28"
-          cy="28"
-          r={r}
-          stroke="currentColor"
-          strokeWidth="6"
-          fill="none"
-          strokeLinecap="round"
-          strokeDasharray={`${dash} ${c - dash}`}
-          transform="rotate(-90 28 28)"
-        />
-      </svg>
-      <div>
-        <div style={{ fontSize: 14, opacity: 0.7 }}>Global progress</div>
-        <div style={{ fontSize: 22, fontWeight: 800 }}>{value}%</div>
-      </div>
-    </div>
-  );
-}
+type BoardSettings = {
+  // "parent" : une tâche compte 0 ou 1 ; "subtasks" : pondérée par sa checklist
+  progressMode: ProgressMode;
+  views: SavedView[];
+};
 
-function Modal({
-  open,
-  title,
-  children,
-  onClose,
-}: {
-  open: boolean;
-  title: string;
-  children: React.ReactNode;
-  onClose: () => void;
-}) {
-  if (!open) return null;
-  return (
-    <div
-      role="dialog"
-      aria-modal="true"
-      style={{
-        position: "fixed",
-        inset: 0,
-        background: "linear-gradient(180deg,#0f1115 0%,#0a0c10 100%)",
-        color: "rgba(255, 255, 255, 0.14)",
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "center",
-        padding: 16,
-        zIndex: 9999,
-      }}
-      onMouseDown={(e) => {
-        if (e.target === e.currentTarget) onClose();
-      }}
-    >
-      <div
-        style={{
-          width: "min(720px, 96vw)",
-          background: "white",
-          borderRadius: 16,
-          boxShadow: "0 16px 40px rgba(0,0,0,0.18)",
-          padding: 16,
-        }}
-      >
-        <div
-          style={{
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "space-between",
-            gap: 12,
-            marginBottom: 12,
-          }}
-        >
-          <div style={{ fontSize: 18, fontWeight: 800 }}>{title}</div>
-          <button
-            onClick={onClose}
-            style={{
-              border: "1px solid rgba(0,0,0,0.12)",
-              background: "white",
-              borderRadius: 10,
-              padding: "6px 10px",
-              cursor: "pointer",
-            }}
-          >
-            Close
-          </button>
-        </div>
-        {children}
-      </div>
-    </div>
-  );
-}
+type BoardData = {
+  sections: Section[];
+  tasks: Task[];
+  history: DayRecord[];
+  lastActiveDay: string;
+  settings: BoardSettings;
+  tags: Tag[];
+};
 
-function SortableTaskCard({
-  id,
-  children,
-}: {
+type Board = {
   id: string;
-  children: React.ReactNode;
-}) {
-  const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
-    useSortable({ id });
+  name: string;
+  data: BoardData;
+};
 
-  const style: React.CSSProperties = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.75 : 1,
-    cursor: "grab",
-    touchAction: "none",
-    userSelect: "none",
-    WebkitUserSelect: "none",
-  };
+type Workspace = {
+  boards: Board[];
+  activeBoardId: string;
+  language: Language;
+};
 
-  return (
-    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
-      {children}
-    </div>
-  );
-}
+// L'historique d'annulation porte sur la liste des tableaux (créer/supprimer un tableau s'annule aussi)
+type UndoEntry = {
+  label: string;
+  // tableau concerné : annuler depuis un autre tableau y ramène
+  boardId: string;
+  boards: Board[];
+  mergeKey?: string;
+  at: number;
+};
 
-export default function JourneyTaskBoard() {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [categoryFilter, setCategoryFilter] = useState<string>("All");
-  const [onlyIncomplete, setOnlyIncomplete] = useState<boolean>(false);
+type Timeline = {
+  present: Board[];
+  past: UndoEntry[];
+  future: UndoEntry[];
+};
 
-  const [modalOpen, setModalOpen] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
+const STORAGE_KEY = "journey_task_board_v1";
 
-  const [formTitle, setFormTitle] = useState("");
-  const [formSection, setFormSection] = useState<Section>("Morning");
-  const [formCategory, setFormCategory] = useState("");
-  const [formComment, setFormComment] = useState("");
+const UNDO_LIMIT = 100;
 
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 6 } })
-  );
+const FOCUSABLE =
+  'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), ' +
+  'textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
 
-  // Load
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as Task[];
-        if (Array.isArray(parsed)) setTasks(parsed);
-      }
-    } catch {
-      // ignore
-    }
-  }, []);
+const COLUMN_PREFIX = "section:";
 
-  // Save
-  useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-    } catch {
-      // ignore
-    }
-  }, [tasks]);
+// Les ids reprennent les valeurs v1 de Task.section : les anciennes données restent valides
+const DEFAULT_SECTIONS: Section[] = [
+  { id: "Morning", name: "Morning", color: "#f59e0b" },
+  { id: "Midday", name: "Midday", color: "#0ea5e9" },
+  { id: "AfterWork", name: "After Work", color: "#8b5cf6" },
+];
 
-  const categories = useMemo(() => {
-    const set = new Set<string>();
-    for (const t of tasks) if (t.category?.trim()) set.add(t.category.trim());
-    return ["All", ...Array.from(set).sort((a, b) => a.localeCompare(b))];
-  }, [tasks]);
+const DEFAULT_SETTINGS: BoardSettings = { progressMode: "parent", views: [] };
 
-  const sections: Section[] = ["Morning", "Midday", "AfterWork"];
+const EMPTY_FILTER: BoardFilter = {
+  query: "",
+  sections: [],
+  tags: [],
+  tagMatch: "any",
+  status: "all",
+  createdFrom: "",
+  createdTo: "",
+};
 
-  const filteredTasks = useMemo(() => {
-    return tasks
-      .filter((t) => (categoryFilter === "All" ? true : t.category === categoryFilter))
-      .filter((t) => (onlyIncomplete ? !t.done : true))
-      .sort((a, b) => {
-        const ao = a.order ?? 999999;
-        const bo = b.order ?? 999999;
-        if (ao !== bo) return ao - bo;
-        return b.createdAt - a.createdAt;
-      });
-  }, [tasks, categoryFilter, onlyIncomplete]);
+const TAG_COLORS = ["#2563eb", "#16a34a", "#db2777", "#ea580c", "#7c3aed", "#0891b2", "#ca8a04"];
 
-  const sectionStats = useMemo(() => {
-    const stats: Record<Section, { done: number; total: number; pct: number }> = {
-      Morning: { done: 0, total: 0, pct: 0 },
-      Midday: { done: 0, total: 0, pct: 0 },
-      AfterWork: { done: 0, total: 0, pct: 0 },
-    };
-    for (const s of sections) {
-      const list = filteredTasks.filter((t) => t.section === s);
-      const total = list.length;
-      const done = list.filter((t) => t.done).length;
-      stats[s] = { done, total, pct: pct(done, total) };
-    }
-    return stats;
-  }, [filteredTasks]);
+/* ---------- Thème : jetons de couleurs, rayons et espacements ---------- */
 
-  const globalProgress = useMemo(() => {
-    const total = filteredTasks.length;
-    const done = filteredTasks.filter((t) => t.done).length;
-    return pct(done, total);
-  }, [filteredTasks]);
+type ThemeName = "light" | "dark" | "contrast";
+type ThemeChoice = ThemeName | "system";
 
-  function openCreate() {
-    setEditingId(null);
-    setFormTitle("");
-    setFormSection("Morning");
-    setFormCategory("");
-    setFormComment("");
-    setModalOpen(true);
-  }
+// Préférence propre à l'appareil, comme les rappels : hors de l'enveloppe synchronisée
+const THEME_KEY = `${STORAGE_KEY}_theme`;
 
-  function openEdit(task: Task) {
-    setEditingId(task.id);
-    setFormTitle(task.title);
-    setFormSection(task.section);
-    setFormCategory(task.category ?? "");
-    setFormComment(task.comment ?? "");
-    setModalOpen(true);
-  }
+const THEME_CHOICES: { value: ThemeChoice; label: MessageKey }[] = [
+  { value: "system", label: "theme.system" },
+  { value: "light", label: "theme.light" },
+  { value: "dark", label: "theme.dark" },
+  { value: "contrast", label: "theme.contrast" },
+];
 
-  function closeModal() {
-    setModalOpen(false);
-    setEditingId(null);
-  }
+const LIGHT_THEME = {
+  page: "#e5dede",
+  surface: "#ffffff",
+  surfaceMuted: "#f4f1f1",
+  text: "rgba(0,0,0,0.88)",
+  textMuted: "rgba(0,0,0,0.65)",
+  border: "rgba(0,0,0,0.12)",
+  borderField: "rgba(0,0,0,0.14)",
+  borderSubtle: "rgba(0,0,0,0.08)",
+  borderStrong: "rgba(0,0,0,0.18)",
+  accent: "rgba(101, 144, 44, 0.48)",
+  primary: "rgba(0,0,0,0.92)",
+  onPrimary: "#ffffff",
+  onPrimaryBorder: "rgba(255,255,255,0.35)",
+  onAccent: "#ffffff",
+  danger: "rgb(220, 38, 38)",
+  dangerBorder: "rgba(255,0,0,0.3)",
+  success: "rgb(22, 163, 74)",
+  successBorder: "rgba(0,128,0,0.25)",
+  warning: "#d97706",
+  warningBorder: "rgba(245, 158, 11, 0.6)",
+  warningSurface: "#fef3c7",
+  infoBorder: "rgba(59, 130, 246, 0.55)",
+  track: "rgba(0,0,0,0.08)",
+  overlay: "rgba(15, 17, 21, 0.55)",
+  shadow: "rgba(0,0,0,0.06)",
+  shadowStrong: "rgba(0,0,0,0.22)",
+  dropOutline: "rgba(0,0,0,0.35)",
+  selection: "#2563eb",
+  highlight: "#fde68a",
+  onHighlight: "rgba(0,0,0,0.88)",
+};
 
-  function submitForm() {
-    const title = clampStr(formTitle);
-    if (!title) return;
+type ColorToken = keyof typeof LIGHT_THEME;
 
-    const category = clampStr(formCategory);
-    const comment = formComment.trim();
+const THEMES: Record<ThemeName, Record<ColorToken, string>> = {
+  light: LIGHT_THEME,
+  dark: {
+    page: "#0f1115",
+    surface: "#1a1d23",
+    surfaceMuted: "#14171c",
+    text: "rgba(255,255,255,0.9)",
+    textMuted: "rgba(255,255,255,0.65)",
+    border: "rgba(255,255,255,0.14)",
+    borderField: "rgba(255,255,255,0.2)",
+    borderSubtle: "rgba(255,255,255,0.08)",
+    borderStrong: "rgba(255,255,255,0.26)",
+    accent: "rgba(132, 190, 60, 0.5)",
+    primary: "#e8eaed",
+    onPrimary: "#111318",
+    onPrimaryBorder: "rgba(0,0,0,0.3)",
+    onAccent: "#ffffff",
+    danger: "#f87171",
+    dangerBorder: "rgba(248,113,113,0.45)",
+    success: "#4ade80",
+    successBorder: "rgba(74,222,128,0.35)",
+    warning: "#fbbf24",
+    warningBorder: "rgba(251,191,36,0.6)",
+    warningSurface: "rgba(251,191,36,0.18)",
+    infoBorder: "rgba(96,165,250,0.6)",
+    track: "rgba(255,255,255,0.1)",
+    overlay: "rgba(0,0,0,0.6)",
+    shadow: "rgba(0,0,0,0.3)",
+    shadowStrong: "rgba(0,0,0,0.55)",
+    dropOutline: "rgba(255,255,255,0.45)",
+    selection: "#60a5fa",
+    highlight: "rgba(251,191,36,0.4)",
+    onHighlight: "#ffffff",
+  },
+  contrast: {
+    page: "#000000",
+    surface: "#000000",
+    surfaceMuted: "#000000",
+    text: "#ffffff",
+    textMuted: "#ffffff",
+    border: "#ffffff",
+    borderField: "#ffffff",
+    borderSubtle: "#b3b3b3",
+    borderStrong: "#ffffff",
+    accent: "#ffff00",
+    primary: "#ffff00",
+    onPrimary: "#000000",
+    onPrimaryBorder: "#000000",
+    onAccent: "#ffffff",
+    danger: "#ff6b6b",
+    dangerBorder: "#ff6b6b",
+    success: "#00ff7f",
+    successBorder: "#00ff7f",
+    warning: "#ffd700",
+    warningBorder: "#ffd700",
+    warningSurface: "#000000",
+    infoBorder: "#00bfff",
+    track: "#595959",
+    overlay: "rgba(0,0,0,0.85)",
+    shadow: "transparent",
+    shadowStrong: "transparent",
+    dropOutline: "#ffff00",
+    selection: "#00bfff",
+    highlight: "#ffff00",
+    onHighlight: "#000000",
+  },
+};
 
-    if (editingId) {
-      setTasks((prev) =>
-        prev.map((t) =>
-          t.id === editingId
-            ? {
-                ...t,
-                title,
-                section: formSection,
-                category: category || undefined,
-                comment: comment || undefined,
-              }
-            : t
-        )
-      );
-    } else {
-      const nextOrder =
-        tasks
-          .filter((x) => x.section === formSection)
-          .reduce((m, x) => Math.max(m, x.order ?? -1), -1) + 1;
+// Les styles lisent des variables CSS : changer de thème ne re-rend aucun composant
+const COLOR = Object.fromEntries(
+  Object.keys(LIGHT_THEME).map((k) => [k, `var(--jb-${k})`])
+) as Record<ColorToken, string>;
 
-      const newTask: Task = {
-        id: uid(),
-        title,
-        section: formSection,
-        category: category || undefined,
-        done: false,
-        comment: comment || undefined,
-        createdAt: Date.now(),
-        order: nextOrder,
-      };
+const RADIUS = { sm: 6, md: 10, lg: 12, xl: 16, pill: 999 };
 
-      setTasks((prev) => [newTask, ...prev]);
-    }
+const SPACE = { xxs: 4, xs: 6, sm: 8, md: 10, lg: 12, xl: 14, xxl: 16 };
 
-    closeModal();
-  }
+const PAD = {
+  chip: "3px 8px",
+  small: "6px 10px",
+  field: "8px 10px",
+  button: "9px 12px",
+  control: "10px 12px",
+  wide: "10px 14px",
+};
 
-  function toggleDone(id: string) {
-    setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, done: !t.done } : t)));
+function readThemeChoice(): ThemeChoice {
+  try {
+    const raw = localStorage.getItem(THEME_KEY);
+    return THEME_CHOICES.find((c) => c.value === raw)?.value ?? "system";
+  } catch {
+    return "system";
   }
+}
 
-  function removeTask(id: string) {
-    setTasks((prev) => prev.filter((t) => t.id !== id));
-  }
+function systemTheme(): ThemeName {
+  if (window.matchMedia("(prefers-contrast: more)").matches) return "contrast";
+  return window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+}
 
-  function clearAll() {
-    if (!confirm("Delete all tasks?")) return;
-    setTasks([]);
+function applyTheme(name: ThemeName) {
+  const root = document.documentElement;
+  for (const [token, value] of Object.entries(THEMES[name])) {
+    root.style.setProperty(`--jb-${token}`, value);
   }
+  root.style.colorScheme = name === "light" ? "light" : "dark";
+  document.querySelector('meta[name="theme-color"]')?.setAttribute("content", THEMES[name].page);
+}
 
-  function resetAllToIncomplete() {
-    if (!confirm("Mark all tasks as incomplete?")) return;
-    setTasks((prev) => prev.map((t) => ({ ...t, done: false })));
+/* ---------- Traductions ---------- */
+
+type Language = "en" | "fr";
+
+const LANGUAGES: { value: Language; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "fr", label: "Français" },
+];
+
+// Message au pluriel : la forme est choisie par Intl.PluralRules sur la variable `count`
+type Plural = { one: string; other: string };
+
+const EN_MESSAGES = {
+  "theme.label": "Theme",
+  "theme.system": "System theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.contrast": "High contrast",
+  "language.label": "Language",
+  "sort.manual": "Manual order",
+  "sort.priority": "Priority",
+  "sort.due": "Due date",
+  "sort.title": "Title",
+  "priority.high": "High",
+  "priority.medium": "Medium",
+  "priority.low": "Low",
+  "field.title": "Title",
+  "field.section": "Section",
+  "field.tags": "Tags",
+  "field.status": "Status",
+  "field.notes": "Notes",
+  "field.created": "Created",
+  "field.position": "Position",
+  "field.repeat": "Repeat",
+  "field.checklist": "Checklist",
+  "field.reminder": "Reminder",
+  "field.priority": "Priority",
+  "field.due": "Due",
+  "status.done": "Done",
+  "status.notDone": "Not done",
+  "due.today": "today",
+  "due.tomorrow": "tomorrow",
+  "due.yesterday": "yesterday",
+  "repeat.never": "Never",
+  "repeat.everyDays": { one: "Every day", other: "Every {count} days" },
+  "repeat.monthlyOn": "Monthly on day {day}",
+  "reminder.sectionStarts": "{section} starts now",
+  "reminder.tasksLeft": { one: "{count} task left: {titles}", other: "{count} tasks left: {titles}" },
+  "reminder.markDone": "Mark done",
+  "reminder.markAllDone": "Mark all done",
+  "reminder.snooze": "Snooze {minutes} min",
+  "sync.badResponse": "Unexpected response from the sync server",
+  "drag.instructions": "To pick up a task, focus its handle and press Space or Enter. Use the arrow keys to move it within or across sections, Space or Enter to drop it, and Escape to cancel.",
+  "app.loading": "Loading…",
+  "import.noTitleColumn": "Header row must contain a \"title\" column.",
+  "import.missingTitle": "missing title",
+  "import.badDone": "\"done\" must be true or false (got \"{value}\")",
+  "import.badCreatedAt": "invalid createdAt \"{value}\"",
+  "import.badOrder": "invalid order \"{value}\"",
+  "import.badPriority": "invalid priority \"{value}\"",
+  "import.badDue": "invalid due date \"{value}\"",
+  "import.rowError": "Row {line}: {problems}",
+  "import.notBoardFile": "Not a valid board file: {error}",
+  "import.taskNoTitle": "Task {index}: missing or empty title",
+  "progress.global": "Global progress",
+  "stats.noData": "No data for this period yet.",
+  "stats.dayNoData": "{date}: no data",
+  "modal.close": "Close",
+  "drag.move": "Move \"{title}\"",
+  "drag.hint": "Drag to move (or press Space, then arrow keys)",
+  "undo.resolveConflict": "Resolve sync conflict",
+  "undo.completeTask": "Complete task",
+  "undo.completeSection": "Complete section",
+  "undo.editTask": "Edit task",
+  "undo.createTask": "Create task",
+  "undo.toggleTask": "Toggle task",
+  "undo.toggleChecklistItem": "Toggle checklist item",
+  "undo.recolorTag": "Recolor tag",
+  "undo.mergeTags": "Merge tags",
+  "undo.renameTag": "Rename tag",
+  "undo.deleteTag": "Delete tag",
+  "undo.changeProgressMode": "Change progress mode",
+  "undo.deleteTask": "Delete task",
+  "undo.clearBoard": "Clear board",
+  "undo.resetProgress": "Reset progress",
+  "undo.addBoard": "Add board",
+  "undo.duplicateBoard": "Duplicate board",
+  "undo.renameBoard": "Rename board",
+  "undo.deleteBoard": "Delete board",
+  "undo.applyTemplate": "Apply template",
+  "undo.addSection": "Add section",
+  "undo.editSection": "Edit section",
+  "undo.moveSection": "Move section",
+  "undo.deleteSection": "Delete section",
+  "undo.sortSection": "Sort section",
+  "undo.import": "Import",
+  "undo.moveTask": "Move task",
+  "sync.button": "Sync",
+  "sync.conflicts": { one: "Sync · {count} conflict", other: "Sync · {count} conflicts" },
+  "sync.offlinePending": "Offline · {count} pending",
+  "sync.error": "Sync error",
+  "sync.pending": "Sync · {count} pending",
+  "sync.syncing": "Syncing…",
+  "sync.synced": "Synced",
+  "confirm.mergeTags": "Merge \"{from}\" into \"{to}\"?",
+  "confirm.deleteTag": "Remove tag \"{name}\" from every task?",
+  "confirm.clearAll": "Delete all tasks?",
+  "confirm.reset": "Mark all tasks as incomplete? Today's progress is kept in history.",
+  "confirm.deleteBoard": "Delete board \"{name}\" and all its tasks?",
+  "confirm.deleteTemplate": "Delete template \"{name}\"?",
+  "confirm.deleteSection": "Delete section \"{name}\"?",
+  "confirm.replaceImport": "Replace all current tasks with the imported ones?",
+  "toast.taskDeleted": "Task deleted",
+  "toast.allDeleted": "All tasks deleted",
+  "toast.boardDeleted": "Board deleted",
+  "toast.sectionDeleted": "Section deleted",
+  "toast.templateApplied": { one: "Added {count} task from \"{name}\"", other: "Added {count} tasks from \"{name}\"" },
+  "toast.imported": { one: "Imported {count} task", other: "Imported {count} tasks" },
+  "board.newName": "New board",
+  "board.copyName": "{name} (copy)",
+  "section.newName": "New section",
+  "drag.taskFallback": "task",
+  "drag.theBoard": "the board",
+  "drag.into": "into {section}",
+  "drag.position": "in {section}, position {position} of {total}",
+  "drag.start": "Picked up {task}, {where}.",
+  "drag.over": "{task} moved {where}.",
+  "drag.notOver": "{task} is no longer over a section.",
+  "drag.end": "{task} dropped {where}.",
+  "drag.outside": "{task} dropped outside the board; nothing moved.",
+  "drag.cancel": "Move cancelled. {task} is back in place.",
+  "header.subtitle": "{sections} — tick tasks, add comments, track progress.",
+  "header.switchBoard": "Switch board",
+  "header.boards": "Boards",
+  "header.browseDays": "Browse past days",
+  "header.today": "Today",
+  "tags.any": "Any",
+  "tags.all": "All",
+  "tags.none": "No tags yet.",
+  "action.clear": "Clear",
+  "tags.manage": "Manage tags…",
+  "filter.unscheduled": "Show tasks not due today",
+  "progress.modeTitle": "How checklists count towards progress",
+  "progress.modeParent": "Progress: tasks only",
+  "progress.modeSubtasks": "Progress: weighted by checklist",
+  "header.addTask": "+ Add Task",
+  "undo.title": "Undo: {label} (Ctrl+Z)",
+  "undo.nothing": "Nothing to undo",
+  "undo.button": "↶ Undo",
+  "redo.title": "Redo: {label} (Ctrl+Shift+Z)",
+  "redo.nothing": "Nothing to redo",
+  "redo.button": "↷ Redo",
+  "header.templates": "Templates",
+  "header.sections": "Sections",
+  "header.stats": "Stats",
+  "header.importExport": "Import / Export",
+  "header.reset": "Reset",
+  "storage.repaired": { one: "{count} saved task was repaired.", other: "{count} saved tasks were repaired." },
+  "storage.quarantined": { one: "{count} unreadable record was set aside and kept in storage.", other: "{count} unreadable records were set aside and kept in storage." },
+  "confirm.discardQuarantine": "Permanently discard the unreadable records?",
+  "action.discard": "Discard",
+  "action.dismiss": "Dismiss",
+  "notify.enable": "Enable notifications",
+  "reminder.dismiss": "Dismiss reminder",
+  "history.viewing": "Viewing",
+  "history.readOnly": "read-only snapshot of that day.",
+  "history.back": "Back to today",
+  "section.doneLabel": "{section}: {done} of {total} done",
+  "section.progress": { one: "{done}/{total} done • {pct}%", other: "{done}/{total} done • {pct}%" },
+  "section.sortLabel": "Sort {section}",
+  "section.sortTitle": "Sort tasks",
+  "column.emptyReadOnly": "No tasks here (with current filters).",
+  "column.empty": "No tasks here (with current filters). Drop a card here.",
+  "card.markAs": "Mark \"{title}\" as {state}",
+  "card.stateDone": "done",
+  "card.stateNotDone": "not done",
+  "card.overdue": "Overdue · {when}",
+  "card.due": "Due {when}",
+  "card.notToday": "not today",
+  "card.checklistProgress": "Checklist progress",
+  "card.completed": "Completed",
+  "card.noNotes": "No notes",
+  "card.editLabel": "Edit \"{title}\"",
+  "card.deleteLabel": "Delete \"{title}\"",
+  "action.edit": "Edit",
+  "action.delete": "Delete",
+  "form.editTitle": "Edit task",
+  "form.addTitle": "Add task",
+  "form.created": "Created {date}",
+  "form.titleLabel": "Title *",
+  "form.titlePlaceholder": "e.g. Gym / Study / Call…",
+  "form.tagsPlaceholder": "e.g. Sport, Health",
+  "form.none": "None",
+  "form.dueDate": "Due date",
+  "form.dueTime": "Due time (optional)",
+  "repeat.daily": "Every day",
+  "repeat.weekdays": "Specific weekdays",
+  "repeat.interval": "Every N days",
+  "repeat.monthly": "Monthly",
+  "repeat.every": "every",
+  "repeat.daysStarting": "days starting",
+  "repeat.onDay": "on day",
+  "form.reminderTime": "Reminder time",
+  "form.noReminder": "No reminder",
+  "form.reminderHint": "Optional — on each day the task is due",
+  "form.moveUp": "Move up",
+  "form.removeItem": "Remove item",
+  "form.checklistPlaceholder": "Add a checklist item and press Enter…",
+  "form.notePlaceholder": "Add a note about this task…",
+  "action.cancel": "Cancel",
+  "action.save": "Save",
+  "action.create": "Create",
+  "sections.title": "Sections",
+  "sections.reminderIntro": "A section with a start time reminds you when it begins if tasks are left.",
+  "sections.notifyOn": "Browser notifications are on.",
+  "sections.notifyBlocked": "Browser notifications are blocked; reminders show as banners.",
+  "sections.notifyUnsupported": "Reminders show as banners.",
+  "sections.color": "Column color",
+  "common.untitled": "Untitled",
+  "sections.startTitle": "Start time — reminds you of the tasks left in this section",
+  "sections.startLabel": "{section} start time",
+  "common.taskCount": { one: "{count} task", other: "{count} tasks" },
+  "sections.moveLeft": "Move left",
+  "sections.moveRight": "Move right",
+  "sections.moveTasksTo": { one: "Move its {count} task to", other: "Move its {count} tasks to" },
+  "sections.moveAndDelete": "Move & delete",
+  "sections.add": "+ Add section",
+  "sync.title": "Sync",
+  "sync.intro": "Tasks are kept on this device and sent to the server when it can be reached. Changes made offline are queued.",
+  "sync.serverUrl": "Server URL",
+  "sync.disconnect": "Disconnect",
+  "sync.connect": "Connect",
+  "sync.remoteId": "Remote board id for \"{name}\"",
+  "sync.remoteIdHint": "Use the same id on every device that should share this board.",
+  "sync.offlineLong": "Offline — changes will be sent when the connection is back.",
+  "sync.failed": "Sync failed: {message}",
+  "sync.lastSynced": "Last synced {time}.",
+  "sync.never": "Not synced yet.",
+  "sync.queued": { one: "{count} change queued.", other: "{count} changes queued." },
+  "sync.now": "Sync now",
+  "sync.conflictsTitle": "Conflicting edits",
+  "sync.editedHere": "Edited here {here} · on the server {server}",
+  "sync.mine": "Mine:",
+  "sync.server": "Server:",
+  "sync.keepSelected": "Keep selected values",
+  "templates.title": "Templates",
+  "templates.builtIn": "built-in",
+  "templates.skipped": { one: "{count} already on this board — will be skipped", other: "{count} already on this board — will be skipped" },
+  "templates.applied": "Applied",
+  "templates.add": "Add {count}",
+  "templates.saveTitle": "Save cards as a template",
+  "templates.noTasks": "This board has no tasks yet.",
+  "templates.namePlaceholder": "Template name",
+  "templates.saveCards": { one: "Save {count} card", other: "Save {count} cards" },
+  "templates.saveNone": "Save cards",
+  "boards.open": "Open this board",
+  "boards.duplicate": "Duplicate",
+  "boards.add": "+ New board",
+  "data.export": "Export",
+  "data.exportJson": "Full backup (JSON)",
+  "data.exportCsv": "Tasks (CSV)",
+  "data.exportHint": "JSON includes tasks, sections and day history. CSV contains tasks only.",
+  "data.import": "Import",
+  "data.validTasks": { one: "{count} valid task", other: "{count} valid tasks" },
+  "data.historyDays": { one: ", {count} day of history", other: ", {count} days of history" },
+  "data.newSections": " — new sections: {names}",
+  "data.done": ", done",
+  "data.more": "…and {count} more",
+  "data.rowsSkipped": { one: "{count} row skipped:", other: "{count} rows skipped:" },
+  "data.merge": "Merge by id (update matching tasks, add new ones)",
+  "data.replace": "Replace all tasks",
+  "tags.title": "Tags",
+  "tags.empty": "No tags yet — add some from a task.",
+  "tags.color": "Tag color",
+  "tags.rename": "Rename (use an existing name to merge)",
+  "tags.mergeInto": "Merge into…",
+  "stats.title": "Statistics",
+  "stats.daily": "Daily global progress",
+  "stats.rangeLabel": "Completion over the last",
+  "stats.range": "{count} days",
+  "stats.bySection": "By section",
+  "stats.byTag": "By tag",
+  "stats.untagged": "(untagged)",
+  "stats.streaks": "Streaks",
+  "stats.noTasks": "No tasks yet.",
+  "stats.task": "Task",
+  "stats.current": "Current",
+  "stats.best": "Best",
+  "update.available": "Update available",
+  "update.reload": "Reload",
+  "toast.undo": "Undo",
+  "footer.note": "Saved on this device and works offline — use Import / Export to back it up. A new day starts automatically; past days stay available from the date picker. Ctrl/Shift-click or Space selects several cards.",
+  "selection.cardSelected": "{title} (selected)",
+  "selection.toolbar": "Selected cards",
+  "selection.count": { one: "{count} selected", other: "{count} selected" },
+  "selection.markDone": "Mark done",
+  "selection.markNotDone": "Mark not done",
+  "selection.moveTo": "Move to…",
+  "selection.tagsPlaceholder": "Tags, comma-separated",
+  "selection.addTags": "Add tags",
+  "selection.setTags": "Set tags",
+  "selection.setTagsHint": "Replace the tags of every selected card (empty removes them)",
+  "selection.selectAll": "Select all",
+  "selection.clear": "Clear selection",
+  "undo.bulkDone": { one: "Mark {count} task done", other: "Mark {count} tasks done" },
+  "undo.bulkUndone": { one: "Mark {count} task not done", other: "Mark {count} tasks not done" },
+  "undo.bulkMove": { one: "Move {count} task", other: "Move {count} tasks" },
+  "undo.bulkTags": { one: "Change tags of {count} task", other: "Change tags of {count} tasks" },
+  "undo.bulkDuplicate": { one: "Duplicate {count} task", other: "Duplicate {count} tasks" },
+  "undo.bulkDelete": { one: "Delete {count} task", other: "Delete {count} tasks" },
+  "toast.tasksDeleted": { one: "{count} task deleted", other: "{count} tasks deleted" },
+  "quick.label": "Quick add",
+  "quick.placeholder": "Quick add: Read 20 pages @midday #Study // chapter 4",
+  "quick.hint": "@section, #tag and // comment are optional. One task per line; Enter adds, Shift+Enter starts a new line.",
+  "quick.add": "Add",
+  "quick.addMany": { one: "Add {count} task", other: "Add {count} tasks" },
+  "quick.preview": "Tasks to add",
+  "quick.unknownSection": "No section matches \"@{name}\"",
+  "undo.quickAdd": { one: "Add {count} task", other: "Add {count} tasks" },
+  "filter.search": "Search tasks",
+  "filter.searchPlaceholder": "Search…",
+  "filter.summary": "Filters",
+  "filter.summaryActive": { one: "Filters ({count})", other: "Filters ({count})" },
+  "filter.status": "Status",
+  "filter.status.all": "All",
+  "filter.status.todo": "To do",
+  "filter.status.done": "Done",
+  "filter.sections": "Sections",
+  "filter.created": "Created",
+  "filter.createdFrom": "Created from",
+  "filter.createdTo": "Created until",
+  "views.title": "Saved views",
+  "views.all": "All tasks",
+  "views.custom": "Custom filter",
+  "views.namePlaceholder": "View name",
+  "views.save": "Save view",
+  "undo.saveView": "Save view",
+  "undo.deleteView": "Delete view",
+  "notes.edited": "edited",
+  "notes.earlier": { one: "{count} earlier note", other: "{count} earlier notes" },
+  "notes.add": "Add note",
+  "notes.done": "Done",
+  "notes.delete": "Delete note",
+  "notes.editLabel": "Edit note",
+  "notes.markdownHint": "**bold**, [link](https://…), - lists",
+  "field.timeSpent": "Time tracked",
+  "field.timer": "Running timer",
+  "field.planned": "Planned time",
+  "field.autoDone": "Mark done when the planned time is reached",
+  "form.plannedMinutes": "Planned minutes per day",
+  "form.minutesPerDay": "minutes per day",
+  "card.timeSpent": "Time spent today",
+  "section.timeSpent": "Time spent today in this section",
+  "timer.start": "Start timer",
+  "timer.stop": "Stop timer",
+  "timer.startLabel": "Start timer for {title}",
+  "timer.stopLabel": "Stop timer for {title}",
+  "timer.pomodoro": "Pomodoro ({minutes} min)",
+  "timer.pomodoroLabel": "Start a {minutes}-minute Pomodoro for {title}",
+  "timer.pomodoroDone": "Pomodoro finished: {title}",
+  "timer.plannedDone": "Planned time reached: {title}",
+  "timer.takeBreak": "Take a {minutes}-minute break.",
+  "timer.markedDone": "Task marked as done.",
+  "timer.stopped": "Timer stopped.",
+  "undo.startTimer": "Start timer",
+  "undo.stopTimer": "Stop timer",
+  "sync.otherDeviceSection": "From another device",
+  "undo.doneOnBoard": "Undone on \"{board}\": {label}",
+  "redo.doneOnBoard": "Redone on \"{board}\": {label}",
+  "storage.unreadable": "Saved data could not be read: the board starts empty and a backup copy was kept in storage.",
+};
+
+type MessageKey = keyof typeof EN_MESSAGES;
+
+const MESSAGES: Record<Language, Record<MessageKey, string | Plural>> = {
+  en: EN_MESSAGES,
+  fr: {
+    "theme.label": "Thème",
+    "theme.system": "Thème du système",
+    "theme.light": "Clair",
+    "theme.dark": "Sombre",
+    "theme.contrast": "Contraste élevé",
+    "language.label": "Langue",
+    "sort.manual": "Ordre manuel",
+    "sort.priority": "Priorité",
+    "sort.due": "Échéance",
+    "sort.title": "Titre",
+    "priority.high": "Haute",
+    "priority.medium": "Moyenne",
+    "priority.low": "Basse",
+    "field.title": "Titre",
+    "field.section": "Section",
+    "field.tags": "Étiquettes",
+    "field.status": "État",
+    "field.notes": "Notes",
+    "field.created": "Création",
+    "field.position": "Position",
+    "field.repeat": "Répétition",
+    "field.checklist": "Checklist",
+    "field.reminder": "Rappel",
+    "field.priority": "Priorité",
+    "field.due": "Échéance",
+    "status.done": "Faite",
+    "status.notDone": "À faire",
+    "due.today": "aujourd'hui",
+    "due.tomorrow": "demain",
+    "due.yesterday": "hier",
+    "repeat.never": "Jamais",
+    "repeat.everyDays": { one: "Tous les jours", other: "Tous les {count} jours" },
+    "repeat.monthlyOn": "Tous les mois le {day}",
+    "reminder.sectionStarts": "{section} commence maintenant",
+    "reminder.tasksLeft": { one: "{count} tâche restante : {titles}", other: "{count} tâches restantes : {titles}" },
+    "reminder.markDone": "Marquer comme faite",
+    "reminder.markAllDone": "Tout marquer comme fait",
+    "reminder.snooze": "Reporter de {minutes} min",
+    "sync.badResponse": "Réponse inattendue du serveur de synchro",
+    "drag.instructions": "Pour saisir une tâche, placez le focus sur sa poignée et appuyez sur Espace ou Entrée. Déplacez-la avec les flèches dans une section ou vers une autre, déposez-la avec Espace ou Entrée, et annulez avec Échap.",
+    "app.loading": "Chargement…",
+    "import.noTitleColumn": "La ligne d'en-tête doit contenir une colonne « title ».",
+    "import.missingTitle": "titre manquant",
+    "import.badDone": "« done » doit valoir true ou false (reçu « {value} »)",
+    "import.badCreatedAt": "createdAt invalide « {value} »",
+    "import.badOrder": "order invalide « {value} »",
+    "import.badPriority": "priorité invalide « {value} »",
+    "import.badDue": "échéance invalide « {value} »",
+    "import.rowError": "Ligne {line} : {problems}",
+    "import.notBoardFile": "Fichier de tableau invalide : {error}",
+    "import.taskNoTitle": "Tâche {index} : titre manquant ou vide",
+    "progress.global": "Progression globale",
+    "stats.noData": "Pas encore de données sur cette période.",
+    "stats.dayNoData": "{date} : aucune donnée",
+    "modal.close": "Fermer",
+    "drag.move": "Déplacer « {title} »",
+    "drag.hint": "Glisser pour déplacer (ou Espace, puis les flèches)",
+    "undo.resolveConflict": "Résoudre un conflit de synchro",
+    "undo.completeTask": "Terminer la tâche",
+    "undo.completeSection": "Terminer la section",
+    "undo.editTask": "Modifier la tâche",
+    "undo.createTask": "Créer une tâche",
+    "undo.toggleTask": "Cocher la tâche",
+    "undo.toggleChecklistItem": "Cocher un élément de checklist",
+    "undo.recolorTag": "Changer la couleur d'une étiquette",
+    "undo.mergeTags": "Fusionner des étiquettes",
+    "undo.renameTag": "Renommer une étiquette",
+    "undo.deleteTag": "Supprimer une étiquette",
+    "undo.changeProgressMode": "Changer le mode de progression",
+    "undo.deleteTask": "Supprimer la tâche",
+    "undo.clearBoard": "Vider le tableau",
+    "undo.resetProgress": "Réinitialiser la progression",
+    "undo.addBoard": "Ajouter un tableau",
+    "undo.duplicateBoard": "Dupliquer le tableau",
+    "undo.renameBoard": "Renommer le tableau",
+    "undo.deleteBoard": "Supprimer le tableau",
+    "undo.applyTemplate": "Appliquer un modèle",
+    "undo.addSection": "Ajouter une section",
+    "undo.editSection": "Modifier la section",
+    "undo.moveSection": "Déplacer la section",
+    "undo.deleteSection": "Supprimer la section",
+    "undo.sortSection": "Trier la section",
+    "undo.import": "Importer",
+    "undo.moveTask": "Déplacer la tâche",
+    "sync.button": "Synchro",
+    "sync.conflicts": { one: "Synchro · {count} conflit", other: "Synchro · {count} conflits" },
+    "sync.offlinePending": "Hors ligne · {count} en attente",
+    "sync.error": "Erreur de synchro",
+    "sync.pending": "Synchro · {count} en attente",
+    "sync.syncing": "Synchronisation…",
+    "sync.synced": "Synchronisé",
+    "confirm.mergeTags": "Fusionner « {from} » dans « {to} » ?",
+    "confirm.deleteTag": "Retirer l'étiquette « {name} » de toutes les tâches ?",
+    "confirm.clearAll": "Supprimer toutes les tâches ?",
+    "confirm.reset": "Marquer toutes les tâches comme à faire ? La progression du jour reste dans l'historique.",
+    "confirm.deleteBoard": "Supprimer le tableau « {name} » et toutes ses tâches ?",
+    "confirm.deleteTemplate": "Supprimer le modèle « {name} » ?",
+    "confirm.deleteSection": "Supprimer la section « {name} » ?",
+    "confirm.replaceImport": "Remplacer toutes les tâches actuelles par celles importées ?",
+    "toast.taskDeleted": "Tâche supprimée",
+    "toast.allDeleted": "Toutes les tâches ont été supprimées",
+    "toast.boardDeleted": "Tableau supprimé",
+    "toast.sectionDeleted": "Section supprimée",
+    "toast.templateApplied": { one: "{count} tâche ajoutée depuis « {name} »", other: "{count} tâches ajoutées depuis « {name} »" },
+    "toast.imported": { one: "{count} tâche importée", other: "{count} tâches importées" },
+    "board.newName": "Nouveau tableau",
+    "board.copyName": "{name} (copie)",
+    "section.newName": "Nouvelle section",
+    "drag.taskFallback": "tâche",
+    "drag.theBoard": "le tableau",
+    "drag.into": "dans {section}",
+    "drag.position": "dans {section}, position {position} sur {total}",
+    "drag.start": "{task} saisie, {where}.",
+    "drag.over": "{task} déplacée {where}.",
+    "drag.notOver": "{task} n'est plus au-dessus d'une section.",
+    "drag.end": "{task} déposée {where}.",
+    "drag.outside": "{task} déposée hors du tableau ; rien n'a bougé.",
+    "drag.cancel": "Déplacement annulé. {task} est revenue à sa place.",
+    "header.subtitle": "{sections} — cochez les tâches, ajoutez des commentaires, suivez votre progression.",
+    "header.switchBoard": "Changer de tableau",
+    "header.boards": "Tableaux",
+    "header.browseDays": "Parcourir les jours passés",
+    "header.today": "Aujourd'hui",
+    "tags.any": "Au moins une",
+    "tags.all": "Toutes",
+    "tags.none": "Pas encore d'étiquettes.",
+    "action.clear": "Effacer",
+    "tags.manage": "Gérer les étiquettes…",
+    "filter.unscheduled": "Afficher les tâches non prévues aujourd'hui",
+    "progress.modeTitle": "Comment les checklists comptent dans la progression",
+    "progress.modeParent": "Progression : tâches seulement",
+    "progress.modeSubtasks": "Progression : pondérée par les checklists",
+    "header.addTask": "+ Ajouter une tâche",
+    "undo.title": "Annuler : {label} (Ctrl+Z)",
+    "undo.nothing": "Rien à annuler",
+    "undo.button": "↶ Annuler",
+    "redo.title": "Rétablir : {label} (Ctrl+Maj+Z)",
+    "redo.nothing": "Rien à rétablir",
+    "redo.button": "↷ Rétablir",
+    "header.templates": "Modèles",
+    "header.sections": "Sections",
+    "header.stats": "Stats",
+    "header.importExport": "Import / Export",
+    "header.reset": "Réinitialiser",
+    "storage.repaired": { one: "{count} tâche enregistrée a été réparée.", other: "{count} tâches enregistrées ont été réparées." },
+    "storage.quarantined": { one: "{count} enregistrement illisible a été mis de côté et conservé.", other: "{count} enregistrements illisibles ont été mis de côté et conservés." },
+    "confirm.discardQuarantine": "Supprimer définitivement les enregistrements illisibles ?",
+    "action.discard": "Supprimer",
+    "action.dismiss": "Fermer",
+    "notify.enable": "Activer les notifications",
+    "reminder.dismiss": "Ignorer le rappel",
+    "history.viewing": "Consultation du",
+    "history.readOnly": "instantané en lecture seule de cette journée.",
+    "history.back": "Revenir à aujourd'hui",
+    "section.doneLabel": "{section} : {done} sur {total} faites",
+    "section.progress": { one: "{done}/{total} faite • {pct} %", other: "{done}/{total} faites • {pct} %" },
+    "section.sortLabel": "Trier {section}",
+    "section.sortTitle": "Trier les tâches",
+    "column.emptyReadOnly": "Aucune tâche ici (avec les filtres actuels).",
+    "column.empty": "Aucune tâche ici (avec les filtres actuels). Déposez une carte ici.",
+    "card.markAs": "Marquer « {title} » comme {state}",
+    "card.stateDone": "faite",
+    "card.stateNotDone": "à faire",
+    "card.overdue": "En retard · {when}",
+    "card.due": "Échéance {when}",
+    "card.notToday": "pas aujourd'hui",
+    "card.checklistProgress": "Avancement de la checklist",
+    "card.completed": "Terminée",
+    "card.noNotes": "Aucune note",
+    "card.editLabel": "Modifier « {title} »",
+    "card.deleteLabel": "Supprimer « {title} »",
+    "action.edit": "Modifier",
+    "action.delete": "Supprimer",
+    "form.editTitle": "Modifier la tâche",
+    "form.addTitle": "Ajouter une tâche",
+    "form.created": "Créée le {date}",
+    "form.titleLabel": "Titre *",
+    "form.titlePlaceholder": "ex. Sport / Révisions / Appel…",
+    "form.tagsPlaceholder": "ex. Sport, Santé",
+    "form.none": "Aucune",
+    "form.dueDate": "Date d'échéance",
+    "form.dueTime": "Heure d'échéance (facultative)",
+    "repeat.daily": "Tous les jours",
+    "repeat.weekdays": "Certains jours de la semaine",
+    "repeat.interval": "Tous les N jours",
+    "repeat.monthly": "Tous les mois",
+    "repeat.every": "tous les",
+    "repeat.daysStarting": "jours à partir du",
+    "repeat.onDay": "le",
+    "form.reminderTime": "Heure du rappel",
+    "form.noReminder": "Pas de rappel",
+    "form.reminderHint": "Facultatif — chaque jour où la tâche est prévue",
+    "form.moveUp": "Monter",
+    "form.removeItem": "Retirer l'élément",
+    "form.checklistPlaceholder": "Ajoutez un élément de checklist puis Entrée…",
+    "form.notePlaceholder": "Ajouter une note sur cette tâche…",
+    "action.cancel": "Annuler",
+    "action.save": "Enregistrer",
+    "action.create": "Créer",
+    "sections.title": "Sections",
+    "sections.reminderIntro": "Une section avec une heure de début vous le rappelle quand elle commence, s'il reste des tâches.",
+    "sections.notifyOn": "Les notifications du navigateur sont activées.",
+    "sections.notifyBlocked": "Les notifications du navigateur sont bloquées ; les rappels s'affichent en bandeau.",
+    "sections.notifyUnsupported": "Les rappels s'affichent en bandeau.",
+    "sections.color": "Couleur de la colonne",
+    "common.untitled": "Sans titre",
+    "sections.startTitle": "Heure de début — vous rappelle les tâches restantes de cette section",
+    "sections.startLabel": "Heure de début de {section}",
+    "common.taskCount": { one: "{count} tâche", other: "{count} tâches" },
+    "sections.moveLeft": "Déplacer à gauche",
+    "sections.moveRight": "Déplacer à droite",
+    "sections.moveTasksTo": { one: "Déplacer sa {count} tâche vers", other: "Déplacer ses {count} tâches vers" },
+    "sections.moveAndDelete": "Déplacer et supprimer",
+    "sections.add": "+ Ajouter une section",
+    "sync.title": "Synchro",
+    "sync.intro": "Les tâches restent sur cet appareil et sont envoyées au serveur dès qu'il est joignable. Les modifications faites hors ligne sont mises en file d'attente.",
+    "sync.serverUrl": "URL du serveur",
+    "sync.disconnect": "Déconnecter",
+    "sync.connect": "Connecter",
+    "sync.remoteId": "Identifiant distant du tableau « {name} »",
+    "sync.remoteIdHint": "Utilisez le même identifiant sur chaque appareil qui doit partager ce tableau.",
+    "sync.offlineLong": "Hors ligne — les modifications seront envoyées au retour de la connexion.",
+    "sync.failed": "Échec de la synchro : {message}",
+    "sync.lastSynced": "Dernière synchro à {time}.",
+    "sync.never": "Pas encore synchronisé.",
+    "sync.queued": { one: "{count} modification en attente.", other: "{count} modifications en attente." },
+    "sync.now": "Synchroniser",
+    "sync.conflictsTitle": "Modifications en conflit",
+    "sync.editedHere": "Modifiée ici {here} · sur le serveur {server}",
+    "sync.mine": "Ma version :",
+    "sync.server": "Serveur :",
+    "sync.keepSelected": "Garder les valeurs choisies",
+    "templates.title": "Modèles",
+    "templates.builtIn": "intégré",
+    "templates.skipped": { one: "{count} déjà sur ce tableau — sera ignorée", other: "{count} déjà sur ce tableau — seront ignorées" },
+    "templates.applied": "Appliqué",
+    "templates.add": "Ajouter {count}",
+    "templates.saveTitle": "Enregistrer des cartes comme modèle",
+    "templates.noTasks": "Ce tableau n'a pas encore de tâches.",
+    "templates.namePlaceholder": "Nom du modèle",
+    "templates.saveCards": { one: "Enregistrer {count} carte", other: "Enregistrer {count} cartes" },
+    "templates.saveNone": "Enregistrer les cartes",
+    "boards.open": "Ouvrir ce tableau",
+    "boards.duplicate": "Dupliquer",
+    "boards.add": "+ Nouveau tableau",
+    "data.export": "Exporter",
+    "data.exportJson": "Sauvegarde complète (JSON)",
+    "data.exportCsv": "Tâches (CSV)",
+    "data.exportHint": "Le JSON contient les tâches, les sections et l'historique des jours. Le CSV ne contient que les tâches.",
+    "data.import": "Importer",
+    "data.validTasks": { one: "{count} tâche valide", other: "{count} tâches valides" },
+    "data.historyDays": { one: ", {count} jour d'historique", other: ", {count} jours d'historique" },
+    "data.newSections": " — nouvelles sections : {names}",
+    "data.done": ", faite",
+    "data.more": "…et {count} de plus",
+    "data.rowsSkipped": { one: "{count} ligne ignorée :", other: "{count} lignes ignorées :" },
+    "data.merge": "Fusionner par id (mettre à jour les tâches existantes, ajouter les nouvelles)",
+    "data.replace": "Remplacer toutes les tâches",
+    "tags.title": "Étiquettes",
+    "tags.empty": "Aucune étiquette — ajoutez-en depuis une tâche.",
+    "tags.color": "Couleur de l'étiquette",
+    "tags.rename": "Renommer (un nom existant fusionne les étiquettes)",
+    "tags.mergeInto": "Fusionner avec…",
+    "stats.title": "Statistiques",
+    "stats.daily": "Progression globale par jour",
+    "stats.rangeLabel": "Réalisation sur les",
+    "stats.range": "{count} jours",
+    "stats.bySection": "Par section",
+    "stats.byTag": "Par étiquette",
+    "stats.untagged": "(sans étiquette)",
+    "stats.streaks": "Séries",
+    "stats.noTasks": "Aucune tâche pour le moment.",
+    "stats.task": "Tâche",
+    "stats.current": "En cours",
+    "stats.best": "Record",
+    "update.available": "Mise à jour disponible",
+    "update.reload": "Recharger",
+    "toast.undo": "Annuler",
+    "footer.note": "Enregistré sur cet appareil et disponible hors ligne — utilisez Import / Export pour le sauvegarder. Un nouveau jour commence automatiquement ; les jours passés restent accessibles depuis le sélecteur de date. Ctrl/Maj-clic ou Espace sélectionne plusieurs cartes.",
+    "selection.cardSelected": "{title} (sélectionnée)",
+    "selection.toolbar": "Cartes sélectionnées",
+    "selection.count": { one: "{count} sélectionnée", other: "{count} sélectionnées" },
+    "selection.markDone": "Marquer faites",
+    "selection.markNotDone": "Marquer non faites",
+    "selection.moveTo": "Déplacer vers…",
+    "selection.tagsPlaceholder": "Étiquettes, séparées par des virgules",
+    "selection.addTags": "Ajouter les étiquettes",
+    "selection.setTags": "Remplacer les étiquettes",
+    "selection.setTagsHint": "Remplace les étiquettes de chaque carte sélectionnée (vide : les retire)",
+    "selection.selectAll": "Tout sélectionner",
+    "selection.clear": "Vider la sélection",
+    "undo.bulkDone": { one: "Marquer {count} tâche faite", other: "Marquer {count} tâches faites" },
+    "undo.bulkUndone": { one: "Marquer {count} tâche non faite", other: "Marquer {count} tâches non faites" },
+    "undo.bulkMove": { one: "Déplacer {count} tâche", other: "Déplacer {count} tâches" },
+    "undo.bulkTags": { one: "Modifier les étiquettes de {count} tâche", other: "Modifier les étiquettes de {count} tâches" },
+    "undo.bulkDuplicate": { one: "Dupliquer {count} tâche", other: "Dupliquer {count} tâches" },
+    "undo.bulkDelete": { one: "Supprimer {count} tâche", other: "Supprimer {count} tâches" },
+    "toast.tasksDeleted": { one: "{count} tâche supprimée", other: "{count} tâches supprimées" },
+    "quick.label": "Ajout rapide",
+    "quick.placeholder": "Ajout rapide : Lire 20 pages @midday #Étude // chapitre 4",
+    "quick.hint": "@section, #étiquette et // commentaire sont facultatifs. Une tâche par ligne ; Entrée ajoute, Maj+Entrée passe à la ligne.",
+    "quick.add": "Ajouter",
+    "quick.addMany": { one: "Ajouter {count} tâche", other: "Ajouter {count} tâches" },
+    "quick.preview": "Tâches à ajouter",
+    "quick.unknownSection": "Aucune section ne correspond à « @{name} »",
+    "undo.quickAdd": { one: "Ajouter {count} tâche", other: "Ajouter {count} tâches" },
+    "filter.search": "Rechercher des tâches",
+    "filter.searchPlaceholder": "Rechercher…",
+    "filter.summary": "Filtres",
+    "filter.summaryActive": { one: "Filtres ({count})", other: "Filtres ({count})" },
+    "filter.status": "État",
+    "filter.status.all": "Toutes",
+    "filter.status.todo": "À faire",
+    "filter.status.done": "Faites",
+    "filter.sections": "Sections",
+    "filter.created": "Créées",
+    "filter.createdFrom": "Créées à partir du",
+    "filter.createdTo": "Créées jusqu'au",
+    "views.title": "Vues enregistrées",
+    "views.all": "Toutes les tâches",
+    "views.custom": "Filtre personnalisé",
+    "views.namePlaceholder": "Nom de la vue",
+    "views.save": "Enregistrer la vue",
+    "undo.saveView": "Enregistrer la vue",
+    "undo.deleteView": "Supprimer la vue",
+    "notes.edited": "modifiée",
+    "notes.earlier": { one: "{count} note précédente", other: "{count} notes précédentes" },
+    "notes.add": "Ajouter la note",
+    "notes.done": "Terminé",
+    "notes.delete": "Supprimer la note",
+    "notes.editLabel": "Modifier la note",
+    "notes.markdownHint": "**gras**, [lien](https://…), - listes",
+    "field.timeSpent": "Temps passé",
+    "field.timer": "Minuteur en cours",
+    "field.planned": "Durée prévue",
+    "field.autoDone": "Cocher la tâche une fois la durée prévue atteinte",
+    "form.plannedMinutes": "Minutes prévues par jour",
+    "form.minutesPerDay": "minutes par jour",
+    "card.timeSpent": "Temps passé aujourd'hui",
+    "section.timeSpent": "Temps passé aujourd'hui dans cette section",
+    "timer.start": "Démarrer le minuteur",
+    "timer.stop": "Arrêter le minuteur",
+    "timer.startLabel": "Démarrer le minuteur de {title}",
+    "timer.stopLabel": "Arrêter le minuteur de {title}",
+    "timer.pomodoro": "Pomodoro ({minutes} min)",
+    "timer.pomodoroLabel": "Lancer un Pomodoro de {minutes} min pour {title}",
+    "timer.pomodoroDone": "Pomodoro terminé : {title}",
+    "timer.plannedDone": "Durée prévue atteinte : {title}",
+    "timer.takeBreak": "Faites une pause de {minutes} min.",
+    "timer.markedDone": "Tâche cochée.",
+    "timer.stopped": "Minuteur arrêté.",
+    "undo.startTimer": "Démarrer le minuteur",
+    "undo.stopTimer": "Arrêter le minuteur",
+    "sync.otherDeviceSection": "Depuis un autre appareil",
+    "undo.doneOnBoard": "Annulé sur « {board} » : {label}",
+    "redo.doneOnBoard": "Rétabli sur « {board} » : {label}",
+    "storage.unreadable": "Les données enregistrées sont illisibles : le tableau repart vide et une copie de secours a été conservée.",
+  },
+};
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+type I18n = { language: Language; t: Translate };
+
+function detectLanguage(): Language {
+  return navigator.language.toLowerCase().startsWith("fr") ? "fr" : "en";
+}
+
+function makeI18n(language: Language): I18n {
+  const rules = new Intl.PluralRules(language);
+  const t: Translate = (key, vars = {}) => {
+    const msg = MESSAGES[language][key];
+    const text =
+      typeof msg === "string"
+        ? msg
+        : rules.select(Number(vars.count ?? 0)) === "one"
+          ? msg.one
+          : msg.other;
+    return text.replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m));
+  };
+  return { language, t };
+}
+
+const I18nContext = createContext<I18n>(makeI18n("en"));
+
+function useI18n() {
+  return useContext(I18nContext);
+}
+
+function formatDay(language: Language, key: string, options?: Intl.DateTimeFormatOptions) {
+  return parseDay(key).toLocaleDateString(
+    language,
+    options ?? { weekday: "short", day: "numeric", month: "short", year: "numeric" }
+  );
+}
+
+function formatDateTime(language: Language, at: number) {
+  return new Date(at).toLocaleString(language, { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Noms courts des jours, dimanche en premier comme Date.getDay()
+function weekdayNames(language: Language, width: "short" | "narrow" = "short") {
+  const format = new Intl.DateTimeFormat(language, { weekday: width });
+  return Array.from({ length: 7 }, (_, d) => format.format(new Date(2024, 0, 7 + d)));
+}
+
+function uid() {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+function compareOrder(a: Task, b: Task) {
+  const ao = a.order ?? 999999;
+  const bo = b.order ?? 999999;
+  if (ao !== bo) return ao - bo;
+  return b.createdAt - a.createdAt;
+}
+
+const SECTION_SORTS: { value: SectionSort; label: MessageKey }[] = [
+  { value: "manual", label: "sort.manual" },
+  { value: "priority", label: "sort.priority" },
+  { value: "due", label: "sort.due" },
+  { value: "title", label: "sort.title" },
+];
+
+const PRIORITIES: { value: Priority; label: MessageKey; color: string }[] = [
+  { value: "high", label: "priority.high", color: COLOR.danger },
+  { value: "medium", label: "priority.medium", color: COLOR.warning },
+  { value: "low", label: "priority.low", color: COLOR.textMuted },
+];
+
+const DUE_SOON = 24 * 60 * 60_000;
+
+// Échéance sans heure : fin de la journée
+function dueTime(t: Task) {
+  if (!t.due) return Infinity;
+  const [date, time] = t.due.split("T");
+  const d = parseDay(date);
+  const [h, m] = time ? time.split(":").map(Number) : [23, 59];
+  d.setHours(h, m);
+  return d.getTime();
+}
+
+function priorityRank(t: Task) {
+  const i = PRIORITIES.findIndex((p) => p.value === t.priority);
+  return i === -1 ? PRIORITIES.length : i;
+}
+
+function compareTasks(mode: SectionSort = "manual") {
+  return (a: Task, b: Task) => {
+    switch (mode) {
+      case "priority":
+        return priorityRank(a) - priorityRank(b) || dueTime(a) - dueTime(b) || compareOrder(a, b);
+      case "due":
+        // sans échéance des deux côtés : Infinity - Infinity = NaN, on passe au critère suivant
+        return dueTime(a) - dueTime(b) || priorityRank(a) - priorityRank(b) || compareOrder(a, b);
+      case "title":
+        return a.title.localeCompare(b.title) || compareOrder(a, b);
+      default:
+        return compareOrder(a, b);
+    }
+  };
+}
+
+function dueStatus(t: Task, now: number): "overdue" | "soon" | "later" | undefined {
+  if (!t.due) return undefined;
+  const at = dueTime(t);
+  if (t.done) return "later";
+  if (at < now) return "overdue";
+  return at - now <= DUE_SOON ? "soon" : "later";
+}
+
+function dueLabel(t: Task, now: number, { language, t: tr }: I18n) {
+  if (!t.due) return "";
+  const [date, time] = t.due.split("T");
+  const days = daysBetween(dayKey(new Date(now)), date);
+  const day =
+    days === 0
+      ? tr("due.today")
+      : days === 1
+        ? tr("due.tomorrow")
+        : days === -1
+          ? tr("due.yesterday")
+          : formatDay(language, date, { month: "short", day: "numeric" });
+  return `${day}${time ? ` ${time}` : ""}`;
+}
+
+// Insère la tâche déplacée avant `beforeId` (ou en fin de liste)
+function insertBefore(list: Task[], task: Task, beforeId: string | null) {
+  const at = beforeId ? list.findIndex((t) => t.id === beforeId) : -1;
+  return at === -1 ? [...list, task] : [...list.slice(0, at), task, ...list.slice(at)];
+}
+
+function parseTags(input: string) {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const part of input.split(",")) {
+    const name = clampStr(part);
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    out.push(name);
+  }
+  return out;
+}
+
+// Casse ignorée partout, comme dans `parseTags`
+function sameTag(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Ajoute au registre les tags encore inconnus, avec la couleur suivante de la palette
+function ensureTags(registry: Tag[], names: string[]) {
+  const next = [...registry];
+  for (const name of names) {
+    if (next.some((t) => sameTag(t.name, name))) continue;
+    next.push({ name, color: TAG_COLORS[next.length % TAG_COLORS.length] });
+  }
+  return next.length === registry.length ? registry : next;
+}
+
+function tagColor(registry: Tag[], name: string) {
+  return registry.find((t) => sameTag(t.name, name))?.color ?? "#64748b";
+}
+
+// Tags réécrits dans les tâches et dans les instantanés de l'historique (sinon les stats se scindent)
+function retag(data: BoardData, update: (tags: string[]) => string[]) {
+  const apply = (list: Task[]) => {
+    let changed = false;
+    const next = list.map((t) => {
+      if (!t.tags) return t;
+      const tags = parseTags(update(t.tags).join(","));
+      if (sameJson(tags, t.tags)) return t;
+      changed = true;
+      return { ...t, tags: tags.length > 0 ? tags : undefined };
+    });
+    return changed ? next : list;
+  };
+  return {
+    tasks: apply(data.tasks),
+    history: data.history.map((h) => {
+      const tasks = apply(h.tasks);
+      return tasks === h.tasks ? h : { ...h, tasks };
+    }),
+  };
+}
+
+function sectionName(sections: Section[], id: string) {
+  return sections.find((s) => s.id === id)?.name ?? id;
+}
+
+function pct(done: number, total: number) {
+  if (total <= 0) return 0;
+  return Math.round((done / total) * 100);
+}
+
+function clampStr(s: string) {
+  return s.trim().replace(/\s+/g, " ");
+}
+
+function dayKey(d = new Date()) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+function parseDay(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86_400_000);
+}
+
+function isScheduled(task: Task, day: string) {
+  const r = task.recurrence;
+  if (!r || r.kind === "daily") return true;
+  const date = parseDay(day);
+  switch (r.kind) {
+    case "weekdays":
+      return r.days.includes(date.getDay());
+    case "interval": {
+      const diff = daysBetween(r.start, day);
+      return diff >= 0 && diff % Math.max(1, r.every) === 0;
+    }
+    case "monthly": {
+      // le 31 tombe le dernier jour des mois plus courts
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      return date.getDate() === Math.min(r.day, lastDay);
+    }
+  }
+}
+
+function recurrenceLabel({ language, t }: I18n, r?: Recurrence) {
+  if (!r || r.kind === "daily") return t("repeat.everyDays", { count: 1 });
+  switch (r.kind) {
+    case "weekdays": {
+      const names = weekdayNames(language);
+      return r.days.length === 0
+        ? t("repeat.never")
+        : [...r.days].sort((a, b) => a - b).map((d) => names[d]).join(", ");
+    }
+    case "interval":
+      return t("repeat.everyDays", { count: r.every });
+    case "monthly":
+      return t("repeat.monthlyOn", { day: r.day });
+  }
+}
+
+// Une tâche cochée plus tôt dans la journée (avant un Reset) reste "faite" pour ce jour
+function archiveDay(history: DayRecord[], date: string, tasks: Task[], sections: Section[]) {
+  if (tasks.length === 0) return history;
+  const existing = history.find((h) => h.date === date);
+  const doneBefore = new Set(existing?.tasks.filter((t) => t.done).map((t) => t.id));
+  const record: DayRecord = {
+    date,
+    tasks: tasks.map((t) => (doneBefore.has(t.id) ? { ...t, done: true } : t)),
+    sections,
+  };
+  return [...history.filter((h) => h.date !== date), record].sort((a, b) =>
+    b.date.localeCompare(a.date)
+  );
+}
+
+function resetTask(t: Task): Task {
+  return {
+    ...t,
+    done: false,
+    subtasks: t.subtasks?.map((st) => ({ ...st, done: false })),
+  };
+}
+
+// Part accomplie d'une tâche, entre 0 et 1
+function taskScore(t: Task, mode: ProgressMode) {
+  if (t.done) return 1;
+  if (mode === "parent" || !t.subtasks?.length) return 0;
+  return t.subtasks.filter((st) => st.done).length / t.subtasks.length;
+}
+
+// Archive l'état du dernier jour actif puis repart à zéro si la date a changé
+function rollover(data: BoardData, today: string): BoardData {
+  if (data.lastActiveDay === today) return data;
+  const dayStart = parseDay(today).getTime();
+  return {
+    ...data,
+    // les séances des jours précédents restent dans l'historique
+    tasks: data.tasks.map((t) => {
+      const fresh = resetTask(t);
+      const sessions = t.sessions?.filter((x) => x.end > dayStart);
+      return { ...fresh, sessions: sessions?.length ? sessions : undefined };
+    }),
+    history: archiveDay(
+      data.history,
+      data.lastActiveDay,
+      data.tasks.filter((t) => isScheduled(t, data.lastActiveDay)),
+      data.sections
+    ),
+    lastActiveDay: today,
+  };
+}
+
+function rolloverBoards(boards: Board[], today: string) {
+  const next = boards.map((b) => {
+    const data = rollover(b.data, today);
+    return data === b.data ? b : { ...b, data };
+  });
+  return next.some((b, i) => b !== boards[i]) ? next : boards;
+}
+
+function undoTimeline(t: Timeline): Timeline {
+  const entry = t.past[t.past.length - 1];
+  if (!entry) return t;
+  return {
+    present: entry.boards,
+    past: t.past.slice(0, -1),
+    future: [{ ...entry, boards: t.present }, ...t.future],
+  };
+}
+
+function redoTimeline(t: Timeline): Timeline {
+  const entry = t.future[0];
+  if (!entry) return t;
+  return {
+    present: entry.boards,
+    past: [...t.past, { ...entry, boards: t.present }],
+    future: t.future.slice(1),
+  };
+}
+
+/* ---------- Persistance : enveloppe versionnée, migrations, validation ---------- */
+
+// 1 : tableau de tâches brut — 2 : { tasks, history, lastActiveDay } — 3 : enveloppe + sections
+// 4 : réglages (mode de progression) — 5 : tags multiples à la place de `category`
+// 6 : plusieurs tableaux nommés { boards, activeBoardId } — 7 : langue de l'interface
+// 8 : fil de notes à la place de `comment`
+const SCHEMA_VERSION = 8;
+
+type StoredEnvelope = {
+  version: number;
+  data: Workspace;
+  quarantine: unknown[];
+};
+
+type BoardLoad = {
+  data: BoardData;
+  quarantine: unknown[];
+  repaired: number;
+};
+
+type LoadResult = {
+  workspace: Workspace;
+  quarantine: unknown[];
+  repaired: number;
+  // données enregistrées illisibles : on repart de zéro, copie brute gardée à part
+  unreadable?: boolean;
+  // reprise de l'ancienne copie localStorage, à effacer une fois IndexedDB écrit
+  fromLocalStorage?: boolean;
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Chaque migration fait passer les données de la version N à N + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  1: (data) => ({ tasks: data, history: [], lastActiveDay: dayKey() }),
+  2: (data) =>
+    isRecord(data) && !Array.isArray(data.sections)
+      ? { ...data, sections: DEFAULT_SECTIONS }
+      : data,
+  3: (data) => (isRecord(data) ? { ...data, settings: DEFAULT_SETTINGS } : data),
+  4: (data) => {
+    if (!isRecord(data)) return data;
+    const toTags = (list: unknown) =>
+      Array.isArray(list)
+        ? list.map((t) => {
+            if (!isRecord(t)) return t;
+            const { category, ...rest } = t;
+            return typeof category === "string" && clampStr(category)
+              ? { ...rest, tags: [clampStr(category)] }
+              : rest;
+          })
+        : list;
+    const tasks = toTags(data.tasks);
+    const history = Array.isArray(data.history)
+      ? data.history.map((h) => (isRecord(h) ? { ...h, tasks: toTags(h.tasks) } : h))
+      : data.history;
+    return { ...data, tasks, history, tags: [] };
+  },
+  5: (data) => ({
+    boards: [{ id: "default", name: "My board", data }],
+    activeBoardId: "default",
+  }),
+  6: (data) => (isRecord(data) ? { ...data, language: detectLanguage() } : data),
+  7: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.boards)) return data;
+    const boards = data.boards.map((b) => {
+      if (!isRecord(b) || !isRecord(b.data)) return b;
+      const { tasks, history } = b.data;
+      return {
+        ...b,
+        data: {
+          ...b.data,
+          tasks: commentsToNotes(tasks),
+          history: Array.isArray(history)
+            ? history.map((h) => (isRecord(h) ? { ...h, tasks: commentsToNotes(h.tasks) } : h))
+            : history,
+        },
+      };
+    });
+    return { ...data, boards };
+  },
+};
+
+// L'ancien commentaire devient la première note, datée de la création de la tâche.
+// Son id dérive de celui de la tâche : chaque appareil qui migre obtient la même note
+function commentNote(taskId: string, comment: string, createdAt: number): Note {
+  return { id: `${taskId}:comment`, text: comment.trim(), createdAt };
+}
+
+function commentsToNotes(list: unknown) {
+  if (!Array.isArray(list)) return list;
+  return list.map((t) => {
+    if (!isRecord(t)) return t;
+    const { comment, ...rest } = t;
+    if (typeof comment !== "string" || !comment.trim() || rest.notes !== undefined) return rest;
+    const id = typeof t.id === "string" && t.id ? t.id : uid();
+    const createdAt = typeof t.createdAt === "number" ? t.createdAt : Date.now();
+    return { ...rest, notes: [commentNote(id, comment, createdAt)] };
+  });
+}
+
+function migrate(version: number, data: unknown) {
+  // Données écrites par une version plus récente : les valider en perdrait les champs inconnus
+  if (version > SCHEMA_VERSION) throw new Error(`Unknown schema v${version}`);
+  let current = data;
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from schema v${v}`);
+    current = step(current);
+  }
+  return current;
+}
+
+function validateRecurrence(raw: unknown): Recurrence | undefined {
+  if (!isRecord(raw)) return undefined;
+  switch (raw.kind) {
+    case "weekdays":
+      return Array.isArray(raw.days)
+        ? {
+            kind: "weekdays",
+            days: raw.days.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6),
+          }
+        : undefined;
+    case "interval":
+      return typeof raw.start === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw.start)
+        ? {
+            kind: "interval",
+            every: Math.max(1, Math.floor(Number(raw.every) || 1)),
+            start: raw.start,
+          }
+        : undefined;
+    case "monthly":
+      return {
+        kind: "monthly",
+        day: Math.min(31, Math.max(1, Math.floor(Number(raw.day) || 1))),
+      };
+    default:
+      return undefined;
+  }
+}
+
+function isTime(v: unknown): v is string {
+  return typeof v === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+}
+
+function isStamp(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+function isDue(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}(T([01]\d|2[0-3]):[0-5]\d)?$/.test(v);
+}
+
+function validateSections(raw: unknown): Section[] {
+  if (!Array.isArray(raw)) return DEFAULT_SECTIONS;
+  const seen = new Set<string>();
+  const sections: Section[] = [];
+  for (const s of raw) {
+    if (!isRecord(s) || typeof s.id !== "string" || !s.id || seen.has(s.id)) continue;
+    seen.add(s.id);
+    sections.push({
+      id: s.id,
+      name: typeof s.name === "string" && s.name.trim() ? s.name : s.id,
+      color: typeof s.color === "string" ? s.color : "#64748b",
+      startTime: isTime(s.startTime) ? s.startTime : undefined,
+      sort: SECTION_SORTS.find((x) => x.value === s.sort && x.value !== "manual")?.value,
+    });
+  }
+  return sections.length > 0 ? sections : DEFAULT_SECTIONS;
+}
+
+// Répare ce qui peut l'être ; une tâche sans titre exploitable est mise en quarantaine (null)
+function validateTask(
+  raw: unknown,
+  sectionIds: Set<string>,
+  fallbackSection: string,
+  seenIds: Set<string>
+): { task: Task; repaired: boolean } | null {
+  if (!isRecord(raw) || typeof raw.title !== "string" || !clampStr(raw.title)) return null;
+
+  let repaired = false;
+  const fix = <T,>(ok: boolean, value: T, fallback: T) => {
+    if (!ok) repaired = true;
+    return ok ? value : fallback;
+  };
+
+  let id = fix(typeof raw.id === "string" && raw.id !== "", raw.id as string, uid());
+  if (seenIds.has(id)) {
+    id = uid();
+    repaired = true;
+  }
+  seenIds.add(id);
+
+  const task: Task = {
+    id,
+    title: clampStr(raw.title),
+    section: fix(
+      typeof raw.section === "string" && sectionIds.has(raw.section),
+      raw.section as string,
+      fallbackSection
+    ),
+    done: fix(typeof raw.done === "boolean", raw.done as boolean, !!raw.done),
+    createdAt: fix(
+      typeof raw.createdAt === "number" && Number.isFinite(raw.createdAt),
+      raw.createdAt as number,
+      Date.now()
+    ),
+  };
+  if (Array.isArray(raw.tags)) {
+    const tags = parseTags(raw.tags.filter((x) => typeof x === "string").join(","));
+    if (tags.length !== raw.tags.length) repaired = true;
+    if (tags.length > 0) task.tags = tags;
+  } else if (raw.tags !== undefined) {
+    repaired = true;
+  }
+  if (Array.isArray(raw.notes)) {
+    const notes = raw.notes.flatMap((n): Note[] =>
+      isRecord(n) && typeof n.text === "string" && n.text.trim()
+        ? [
+            {
+              id: typeof n.id === "string" && n.id ? n.id : uid(),
+              text: n.text.trim(),
+              createdAt: typeof n.createdAt === "number" ? n.createdAt : task.createdAt,
+              editedAt: typeof n.editedAt === "number" ? n.editedAt : undefined,
+            },
+          ]
+        : []
+    );
+    if (notes.length !== raw.notes.length) repaired = true;
+    if (notes.length > 0) task.notes = notes;
+  } else if (raw.notes !== undefined) {
+    repaired = true;
+  } else if (typeof raw.comment === "string" && raw.comment.trim()) {
+    // ancien format, par exemple une tâche tirée d'un serveur pas encore migré
+    task.notes = [commentNote(id, raw.comment, task.createdAt)];
+  }
+  if (typeof raw.order === "number" && Number.isFinite(raw.order)) task.order = raw.order;
+  else if (raw.order !== undefined) repaired = true;
+  if (typeof raw.updatedAt === "number" && Number.isFinite(raw.updatedAt)) {
+    task.updatedAt = raw.updatedAt;
+  }
+  if (typeof raw.rev === "number" && Number.isInteger(raw.rev)) task.rev = raw.rev;
+  if (isTime(raw.reminder)) task.reminder = raw.reminder;
+  else if (raw.reminder !== undefined) repaired = true;
+  const priority = PRIORITIES.find((p) => p.value === raw.priority)?.value;
+  if (priority) task.priority = priority;
+  else if (raw.priority !== undefined) repaired = true;
+  if (isDue(raw.due)) task.due = raw.due;
+  else if (raw.due !== undefined) repaired = true;
+  if (Array.isArray(raw.sessions)) {
+    const sessions = raw.sessions.filter(
+      (x): x is TimeSession => isRecord(x) && isStamp(x.start) && isStamp(x.end) && x.end >= x.start
+    );
+    if (sessions.length !== raw.sessions.length) repaired = true;
+    if (sessions.length > 0) task.sessions = sessions;
+  } else if (raw.sessions !== undefined) {
+    repaired = true;
+  }
+  if (isRecord(raw.timer) && isStamp(raw.timer.start)) {
+    task.timer = { start: raw.timer.start };
+    if (isStamp(raw.timer.until)) task.timer.until = raw.timer.until;
+    if (raw.timer.pomodoro === true) task.timer.pomodoro = true;
+  } else if (raw.timer !== undefined) {
+    repaired = true;
+  }
+  if (typeof raw.planned === "number" && Number.isInteger(raw.planned) && raw.planned > 0) {
+    task.planned = raw.planned;
+  } else if (raw.planned !== undefined) {
+    repaired = true;
+  }
+  if (raw.autoDone === true) task.autoDone = true;
+  if (raw.recurrence !== undefined) {
+    task.recurrence = validateRecurrence(raw.recurrence);
+    if (!task.recurrence) repaired = true;
+  }
+  if (Array.isArray(raw.subtasks)) {
+    const subtasks = raw.subtasks.flatMap((st): Subtask[] =>
+      isRecord(st) && typeof st.title === "string" && clampStr(st.title)
+        ? [
+            {
+              id: typeof st.id === "string" && st.id ? st.id : uid(),
+              title: clampStr(st.title),
+              done: st.done === true,
+            },
+          ]
+        : []
+    );
+    if (subtasks.length !== raw.subtasks.length) repaired = true;
+    if (subtasks.length > 0) task.subtasks = subtasks;
+  } else if (raw.subtasks !== undefined) {
+    repaired = true;
+  }
+  return { task, repaired };
+}
+
+function emptyBoardData(): BoardData {
+  return {
+    sections: DEFAULT_SECTIONS,
+    tasks: [],
+    history: [],
+    lastActiveDay: dayKey(),
+    settings: DEFAULT_SETTINGS,
+    tags: [],
+  };
+}
+
+function validateBoard(raw: unknown): BoardLoad {
+  const src = isRecord(raw) ? raw : {};
+  const sections = validateSections(src.sections);
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const quarantine: unknown[] = [];
+  let repaired = 0;
+
+  const validateList = (list: unknown, keepBad: boolean) => {
+    const seenIds = new Set<string>();
+    const out: Task[] = [];
+    for (const item of Array.isArray(list) ? list : []) {
+      const res = validateTask(item, sectionIds, sections[0].id, seenIds);
+      if (!res) {
+        if (keepBad) quarantine.push(item);
+        continue;
+      }
+      if (res.repaired) repaired++;
+      out.push(res.task);
+    }
+    return out;
+  };
+
+  const tasks = validateList(src.tasks, true);
+
+  const history: DayRecord[] = [];
+  for (const h of Array.isArray(src.history) ? src.history : []) {
+    if (!isRecord(h) || typeof h.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(h.date)) continue;
+    // les snapshots gardent leurs propres sections (éventuellement supprimées depuis)
+    const daySections = h.sections === undefined ? undefined : validateSections(h.sections);
+    const seenIds = new Set<string>();
+    const dayIds = new Set((daySections ?? sections).map((s) => s.id));
+    const dayTasks: Task[] = [];
+    for (const t of Array.isArray(h.tasks) ? h.tasks : []) {
+      const res = validateTask(t, dayIds, (daySections ?? sections)[0].id, seenIds);
+      if (res) dayTasks.push(res.task);
+    }
+    history.push({ date: h.date, tasks: dayTasks, sections: daySections });
+  }
+  history.sort((a, b) => b.date.localeCompare(a.date));
+
+  const lastActiveDay =
+    typeof src.lastActiveDay === "string" && /^\d{4}-\d{2}-\d{2}$/.test(src.lastActiveDay)
+      ? src.lastActiveDay
+      : dayKey();
+
+  const rawSettings = isRecord(src.settings) ? src.settings : {};
+  const settings: BoardSettings = {
+    progressMode: rawSettings.progressMode === "subtasks" ? "subtasks" : "parent",
+    views: (Array.isArray(rawSettings.views) ? rawSettings.views : []).flatMap((v): SavedView[] =>
+      isRecord(v) && typeof v.name === "string" && clampStr(v.name)
+        ? [
+            {
+              id: typeof v.id === "string" && v.id ? v.id : uid(),
+              name: clampStr(v.name),
+              filter: validateFilter(v.filter),
+            },
+          ]
+        : []
+    ),
+  };
+
+  // Registre des tags : entrées valides, puis tout tag utilisé par une tâche mais absent
+  const registered: Tag[] = [];
+  for (const t of Array.isArray(src.tags) ? src.tags : []) {
+    if (!isRecord(t) || typeof t.name !== "string" || !clampStr(t.name)) continue;
+    if (registered.some((x) => sameTag(x.name, clampStr(t.name as string)))) continue;
+    registered.push({
+      name: clampStr(t.name),
+      color:
+        typeof t.color === "string"
+          ? t.color
+          : TAG_COLORS[registered.length % TAG_COLORS.length],
+    });
+  }
+  const tags = ensureTags(registered, tasks.flatMap((t) => t.tags ?? []));
+
+  return {
+    data: { sections, tasks, history, lastActiveDay, settings, tags },
+    quarantine,
+    repaired,
+  };
+}
+
+function readEnvelope(parsed: unknown): { version: number; data: unknown; quarantine: unknown[] } {
+  if (Array.isArray(parsed)) return { version: 1, data: parsed, quarantine: [] };
+  if (isRecord(parsed) && typeof parsed.version === "number" && "data" in parsed) {
+    return {
+      version: parsed.version,
+      data: parsed.data,
+      quarantine: Array.isArray(parsed.quarantine) ? parsed.quarantine : [],
+    };
+  }
+  return { version: 2, data: parsed, quarantine: [] };
+}
+
+function validateWorkspace(raw: unknown): LoadResult {
+  const src = isRecord(raw) ? raw : {};
+  const boards: Board[] = [];
+  const quarantine: unknown[] = [];
+  let repaired = 0;
+  for (const b of Array.isArray(src.boards) ? src.boards : []) {
+    if (!isRecord(b)) continue;
+    const id = typeof b.id === "string" && b.id && !boards.some((x) => x.id === b.id) ? b.id : uid();
+    const result = validateBoard(b.data);
+    quarantine.push(...result.quarantine);
+    repaired += result.repaired;
+    boards.push({
+      id,
+      name: typeof b.name === "string" && clampStr(b.name) ? clampStr(b.name) : "Untitled board",
+      data: result.data,
+    });
+  }
+  if (boards.length === 0) boards.push({ id: "default", name: "My board", data: emptyBoardData() });
+  const activeBoardId = boards.some((b) => b.id === src.activeBoardId)
+    ? (src.activeBoardId as string)
+    : boards[0].id;
+  const language = LANGUAGES.find((l) => l.value === src.language)?.value ?? detectLanguage();
+  return { workspace: { boards, activeBoardId, language }, quarantine, repaired };
+}
+
+/* ---------- Stockage : adaptateurs localStorage / IndexedDB ---------- */
+
+// Même forme que localStorage, en asynchrone : les données restent une chaîne JSON
+type StorageAdapter = {
+  name: "indexeddb" | "localstorage";
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+};
+
+const IDB_NAME = "journey_task_board";
+const IDB_STORE = "kv";
+
+const localStorageAdapter: StorageAdapter = {
+  name: "localstorage",
+  async getItem(key) {
+    return localStorage.getItem(key);
+  },
+  async setItem(key, value) {
+    localStorage.setItem(key, value);
+  },
+};
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openIndexedDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(IDB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+  return idbRequest(req);
+}
+
+function indexedDbAdapter(db: IDBDatabase): StorageAdapter {
+  return {
+    name: "indexeddb",
+    async getItem(key) {
+      const value = await idbRequest(db.transaction(IDB_STORE).objectStore(IDB_STORE).get(key));
+      return typeof value === "string" ? value : null;
+    },
+    async setItem(key, value) {
+      const tx = db.transaction(IDB_STORE, "readwrite");
+      tx.objectStore(IDB_STORE).put(value, key);
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    },
+  };
+}
+
+// IndexedDB si possible (navigation privée, vieux navigateurs : repli sur localStorage)
+async function openStorage(): Promise<StorageAdapter> {
+  if (typeof indexedDB === "undefined") return localStorageAdapter;
+  try {
+    return indexedDbAdapter(await openIndexedDb());
+  } catch {
+    return localStorageAdapter;
+  }
+}
+
+async function loadStored(storage: StorageAdapter): Promise<LoadResult> {
+  const empty: LoadResult = {
+    workspace: {
+      boards: [{ id: "default", name: "My board", data: emptyBoardData() }],
+      activeBoardId: "default",
+      language: detectLanguage(),
+    },
+    quarantine: [],
+    repaired: 0,
+  };
+  let raw: string | null = null;
+  try {
+    raw = await storage.getItem(STORAGE_KEY);
+    // première ouverture avec IndexedDB : on reprend les données de localStorage
+    const fromLocalStorage = raw === null && storage !== localStorageAdapter;
+    if (fromLocalStorage) raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return empty;
+    const envelope = readEnvelope(JSON.parse(raw));
+    const result = validateWorkspace(migrate(envelope.version, envelope.data));
+    return {
+      ...result,
+      quarantine: [...envelope.quarantine, ...result.quarantine],
+      fromLocalStorage,
+    };
+  } catch {
+    // Illisible : on garde une copie brute plutôt que de l'écraser à la prochaine sauvegarde
+    if (raw) {
+      try {
+        await storage.setItem(`${STORAGE_KEY}_backup_${Date.now()}`, raw);
+      } catch {
+        // ignore
+      }
+    }
+    return { ...empty, unreadable: true };
+  }
+}
+
+function saveStored(storage: StorageAdapter, envelope: StoredEnvelope) {
+  return storage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+}
+
+/* ---------- Synchronisation entre onglets ---------- */
+
+const SYNC_CHANNEL = `${STORAGE_KEY}_sync`;
+
+// Raccourci d'application du manifeste (?action=add-task)
+const LAUNCH_ACTION = new URLSearchParams(window.location.search).get("action");
+
+type SyncChannel = {
+  post(envelope: StoredEnvelope): void;
+  close(): void;
+};
+
+// BroadcastChannel, ou à défaut un message déposé dans localStorage (événement `storage`)
+function openSyncChannel(onMessage: (raw: unknown) => void): SyncChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.onmessage = (e: MessageEvent) => onMessage(e.data);
+    return { post: (envelope) => channel.postMessage(envelope), close: () => channel.close() };
+  }
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== SYNC_CHANNEL || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue));
+    } catch {
+      // ignore
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    post: (envelope) => {
+      try {
+        localStorage.setItem(SYNC_CHANNEL, JSON.stringify(envelope));
+      } catch {
+        // ignore
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+}
+
+// Comparaison indépendante de l'ordre des clés (les objets validés n'ont pas l'ordre d'origine)
+function sameJson(a: unknown, b: unknown) {
+  const sorted = (_key: string, v: unknown) =>
+    isRecord(v) ? Object.fromEntries(Object.entries(v).sort(([x], [y]) => x.localeCompare(y))) : v;
+  return JSON.stringify(a, sorted) === JSON.stringify(b, sorted);
+}
+
+// Fusion à trois voies : une valeur inchangée ici depuis `base` prend la valeur de l'autre onglet
+function mergeValue<T>(base: T | undefined, local: T, remote: T): T {
+  return sameJson(local, base) ? remote : local;
+}
+
+// Fusion élément par élément, suppressions comprises ; modifié des deux côtés : le local gagne
+function mergeById<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  merge: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map(base.map((x) => [x.id, x]));
+  const localById = new Map(local.map((x) => [x.id, x]));
+  const remoteIds = new Set(remote.map((x) => x.id));
+  const out: T[] = [];
+  for (const r of remote) {
+    const l = localById.get(r.id);
+    const b = baseById.get(r.id);
+    if (l) out.push(merge(b, l, r));
+    // supprimé ici : ne revient que si l'autre onglet l'a modifié entre-temps
+    else if (!b || !sameJson(b, r)) out.push(r);
+  }
+  for (const l of local) {
+    if (remoteIds.has(l.id)) continue;
+    const b = baseById.get(l.id);
+    if (!b || !sameJson(b, l)) out.push(l);
+  }
+  return out;
+}
+
+function mergeBoardData(base: BoardData | undefined, local: BoardData, remote: BoardData) {
+  const merged = mergeById(base?.sections ?? [], local.sections, remote.sections, mergeValue);
+  const sections = merged.length > 0 ? merged : [...local.sections];
+  const tasks = mergeById(base?.tasks ?? [], local.tasks, remote.tasks, mergeValue);
+  // colonne supprimée d'un côté mais encore utilisée de l'autre : on la garde plutôt que de
+  // déplacer ses tâches
+  const known = [...local.sections, ...remote.sections, ...(base?.sections ?? [])];
+  for (const t of tasks) {
+    if (sections.some((s) => s.id === t.section)) continue;
+    const section = known.find((s) => s.id === t.section);
+    if (section) sections.push(section);
   }
+  return {
+    sections,
+    tasks,
+    history: mergeValue(base?.history, local.history, remote.history),
+    lastActiveDay:
+      local.lastActiveDay > remote.lastActiveDay ? local.lastActiveDay : remote.lastActiveDay,
+    settings: mergeValue(base?.settings, local.settings, remote.settings),
+    tags: ensureTags(
+      mergeValue(base?.tags, local.tags, remote.tags),
+      tasks.flatMap((t) => t.tags ?? [])
+    ),
+  };
+}
+
+function mergeBoards(base: Board[], local: Board[], remote: Board[]): Board[] {
+  const merged = mergeById(base, local, remote, (b, l, r) => ({
+    id: l.id,
+    name: mergeValue(b?.name, l.name, r.name),
+    data: mergeBoardData(b?.data, l.data, r.data),
+  }));
+  return sameJson(merged, local) ? local : merged;
+}
+
+// Changements venus d'ailleurs : reportés dans chaque étape, annuler ne défait que le local.
+// Seul un tableau supprimé vide l'historique (ses étapes n'auraient plus de sens)
+function rebaseTimeline(prev: Timeline, next: Board[]): Timeline {
+  if (next === prev.present) return prev;
+  if (prev.present.some((b) => !next.some((x) => x.id === b.id))) {
+    return { present: next, past: [], future: [] };
+  }
+  const rebase = (e: UndoEntry) => {
+    const boards = mergeBoards(prev.present, e.boards, next);
+    return boards === e.boards ? e : { ...e, boards };
+  };
+  return { present: next, past: prev.past.map(rebase), future: prev.future.map(rebase) };
+}
+
+/* ---------- Synchronisation serveur (API REST, voir README) ---------- */
+
+const REMOTE_KEY = `${STORAGE_KEY}_remote`;
+const SYNC_INTERVAL = 30_000;
+
+type SyncField = Exclude<keyof Task, "id" | "updatedAt" | "rev">;
+
+const SYNC_FIELDS: SyncField[] = [
+  "title",
+  "section",
+  "tags",
+  "done",
+  "notes",
+  "createdAt",
+  "order",
+  "recurrence",
+  "subtasks",
+  "reminder",
+  "priority",
+  "due",
+  "sessions",
+  "timer",
+  "planned",
+  "autoDone",
+];
+
+const SYNC_FIELD_LABELS: Record<SyncField, MessageKey> = {
+  title: "field.title",
+  section: "field.section",
+  tags: "field.tags",
+  done: "field.status",
+  notes: "field.notes",
+  createdAt: "field.created",
+  order: "field.position",
+  recurrence: "field.repeat",
+  subtasks: "field.checklist",
+  reminder: "field.reminder",
+  priority: "field.priority",
+  due: "field.due",
+  sessions: "field.timeSpent",
+  timer: "field.timer",
+  planned: "field.planned",
+  autoDone: "field.autoDone",
+};
+
+type SyncConflict = {
+  taskId: string;
+  remote: Task;
+  fields: SyncField[];
+};
+
+// `base` : dernière version de chaque tâche acceptée par le serveur
+type BoardSync = {
+  remoteId: string;
+  revision: number;
+  base: Task[];
+  conflicts: SyncConflict[];
+};
+
+type RemoteSync = {
+  endpoint: string;
+  boards: Record<string, BoardSync>;
+};
+
+type RemoteChange = { id: string; rev: number; deleted: boolean; task?: unknown };
+type PushChange = { id: string; baseRev: number; deleted: boolean; task?: Task };
+
+async function loadRemote(storage: StorageAdapter): Promise<RemoteSync> {
+  const empty: RemoteSync = { endpoint: "", boards: {} };
+  try {
+    const raw = await storage.getItem(REMOTE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(parsed) || typeof parsed.endpoint !== "string" || !isRecord(parsed.boards)) {
+      return empty;
+    }
+    const boards: Record<string, BoardSync> = {};
+    for (const [id, b] of Object.entries(parsed.boards)) {
+      const sync = readBoardSync(b, id);
+      if (sync) boards[id] = sync;
+    }
+    return { endpoint: parsed.endpoint, boards };
+  } catch {
+    return empty;
+  }
+}
+
+// Les tâches gardées ici ne passent pas par les migrations : l'ancien `comment` est converti
+function readBoardSync(raw: unknown, boardId: string): BoardSync | null {
+  if (!isRecord(raw)) return null;
+  const tasks = (list: unknown) =>
+    commentsToNotes(
+      (Array.isArray(list) ? list : []).filter((t) => isRecord(t) && typeof t.id === "string")
+    ) as Task[];
+  const conflicts = (Array.isArray(raw.conflicts) ? raw.conflicts : []).flatMap(
+    (c): SyncConflict[] =>
+      isRecord(c) && typeof c.taskId === "string" && isRecord(c.remote) && Array.isArray(c.fields)
+        ? tasks([c.remote]).map((remote) => ({
+            taskId: c.taskId as string,
+            remote,
+            fields: (c.fields as unknown[]).filter((f): f is SyncField =>
+              SYNC_FIELDS.includes(f as SyncField)
+            ),
+          }))
+        : []
+  );
+  return {
+    remoteId: typeof raw.remoteId === "string" && raw.remoteId ? raw.remoteId : boardId,
+    revision: typeof raw.revision === "number" ? raw.revision : 0,
+    base: tasks(raw.base),
+    conflicts,
+  };
+}
+
+function boardSync(remote: RemoteSync, boardId: string): BoardSync {
+  return remote.boards[boardId] ?? { remoteId: boardId, revision: 0, base: [], conflicts: [] };
+}
+
+function sameTask(a: Task, b: Task) {
+  const fields = (t: Task) => ({ ...t, updatedAt: undefined, rev: undefined });
+  return sameJson(fields(a), fields(b));
+}
+
+// File d'envoi : tout ce qui diffère de la dernière version acceptée par le serveur
+function pendingChanges(tasks: Task[], sync: BoardSync): PushChange[] {
+  const baseById = new Map(sync.base.map((t) => [t.id, t]));
+  const conflicted = new Set(sync.conflicts.map((c) => c.taskId));
+  const out: PushChange[] = [];
+  for (const t of tasks) {
+    const b = baseById.get(t.id);
+    if (conflicted.has(t.id) || (b && sameTask(b, t))) continue;
+    out.push({ id: t.id, baseRev: t.rev ?? 0, deleted: false, task: t });
+  }
+  const ids = new Set(tasks.map((t) => t.id));
+  for (const b of sync.base) {
+    if (ids.has(b.id) || conflicted.has(b.id)) continue;
+    out.push({ id: b.id, baseRev: b.rev ?? 0, deleted: true });
+  }
+  return out;
+}
+
+// Intègre les changements du serveur ; un champ modifié des deux côtés devient un conflit.
+// Les sections ne sont pas synchronisées : une section inconnue ici est gardée (`missingSections`)
+function applyPull(tasks: Task[], sync: BoardSync, changes: RemoteChange[], sections: Section[]) {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const baseById = new Map(sync.base.map((t) => [t.id, t]));
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const conflicts = sync.conflicts.filter((c) => !changes.some((ch) => ch.id === c.taskId));
+
+  for (const c of changes) {
+    const local = byId.get(c.id);
+    const base = baseById.get(c.id);
+    const dirty = local ? !base || !sameTask(local, base) : !!base;
+    const remoteSection = isRecord(c.task) ? c.task.section : undefined;
+    const ids =
+      typeof remoteSection === "string" && remoteSection && !sectionIds.has(remoteSection)
+        ? new Set([...sectionIds, remoteSection])
+        : sectionIds;
+    const valid = c.deleted ? null : validateTask(c.task, ids, sections[0].id, new Set());
+    if (!valid) {
+      // supprimée sur le serveur : une tâche modifiée ici sera recréée au prochain envoi
+      baseById.delete(c.id);
+      if (local && dirty) byId.set(c.id, { ...local, rev: c.rev });
+      else byId.delete(c.id);
+      continue;
+    }
+    const remote: Task = { ...valid.task, id: c.id, rev: c.rev };
+    baseById.set(c.id, remote);
+    if (local && sameTask(local, remote)) {
+      if (local.rev !== c.rev) byId.set(c.id, { ...local, rev: c.rev });
+      continue;
+    }
+    if (!local || !dirty) {
+      byId.set(c.id, remote);
+      continue;
+    }
+    const merged: Task = { ...local, rev: c.rev };
+    const clash: SyncField[] = [];
+    for (const f of SYNC_FIELDS) {
+      if (sameJson(local[f], remote[f])) continue;
+      if (base && sameJson(local[f], base[f])) Object.assign(merged, { [f]: remote[f] });
+      else if (!base || !sameJson(remote[f], base[f])) clash.push(f);
+    }
+    byId.set(c.id, merged);
+    if (clash.length > 0) conflicts.push({ taskId: c.id, remote, fields: clash });
+  }
+
+  const kept = tasks.flatMap((t) => byId.get(t.id) ?? []);
+  const known = new Set(tasks.map((t) => t.id));
+  const added = [...byId.values()].filter((t) => !known.has(t.id));
+  const next = [...kept, ...added];
+  const changed = next.length !== tasks.length || next.some((t, i) => t !== tasks[i]);
+  const ids = new Set(next.map((t) => t.id));
+  const openConflicts = conflicts.filter((c) => ids.has(c.taskId));
+  const missingSections = [
+    ...new Set(
+      [...next, ...openConflicts.map((c) => c.remote)]
+        .map((t) => t.section)
+        .filter((id) => !sectionIds.has(id))
+    ),
+  ];
+  return {
+    tasks: changed ? next : tasks,
+    missingSections,
+    sync: {
+      ...sync,
+      base: [...baseById.values()],
+      conflicts: openConflicts,
+    },
+  };
+}
+
+function syncFieldText(i18n: I18n, t: Task, field: SyncField, sections: Section[]) {
+  switch (field) {
+    case "section":
+      return sectionName(sections, t.section);
+    case "tags":
+      return t.tags?.join(", ") || "—";
+    case "done":
+      return i18n.t(t.done ? "status.done" : "status.notDone");
+    case "createdAt":
+      return formatDateTime(i18n.language, t.createdAt);
+    case "recurrence":
+      return recurrenceLabel(i18n, t.recurrence);
+    case "priority":
+      return t.priority ? i18n.t(`priority.${t.priority}`) : "—";
+    case "subtasks":
+      return t.subtasks?.map((st) => `${st.done ? "☑" : "☐"} ${st.title}`).join(", ") || "—";
+    case "notes":
+      return t.notes?.map((n) => n.text).join(" · ") || "—";
+    case "sessions":
+      return formatDuration(sessionsTotal(t.sessions)) || "—";
+    case "timer":
+      return t.timer ? formatDateTime(i18n.language, t.timer.start) : "—";
+    case "planned":
+      return t.planned ? formatDuration(t.planned * 60_000) : "—";
+    case "autoDone":
+      return t.autoDone ? "✓" : "—";
+    default:
+      return String(t[field] ?? "—");
+  }
+}
+
+function syncUrl(endpoint: string, remoteId: string) {
+  return `${endpoint.replace(/\/+$/, "")}/boards/${encodeURIComponent(remoteId)}/tasks`;
+}
+
+async function syncRequest(
+  t: Translate,
+  url: string,
+  init?: RequestInit
+): Promise<Record<string, unknown>> {
+  const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  const body: unknown = await res.json();
+  if (!isRecord(body)) throw new Error(t("sync.badResponse"));
+  return body;
+}
+
+function parseRemoteChanges(raw: unknown): RemoteChange[] {
+  return (Array.isArray(raw) ? raw : []).flatMap((c): RemoteChange[] =>
+    isRecord(c) && typeof c.id === "string" && typeof c.rev === "number"
+      ? [{ id: c.id, rev: c.rev, deleted: c.deleted === true, task: c.task }]
+      : []
+  );
+}
+
+/* ---------- Rappels ---------- */
+
+const REMINDERS_KEY = `${STORAGE_KEY}_reminders`;
+// au-delà, un rappel manqué (onglet fermé) n'est plus signalé
+const REMINDER_WINDOW = 60;
+const SNOOZE_MINUTES = 10;
+
+type Reminder = {
+  key: string;
+  boardId: string;
+  kind: "section" | "task";
+  id: string;
+  title: string;
+  body: string;
+};
+
+// Propre à l'appareil et partagé entre onglets : un rappel ne sonne qu'une fois par jour
+type ReminderLog = {
+  day: string;
+  fired: string[];
+  snoozed: Record<string, number>;
+};
+
+function readReminderLog(day: string): ReminderLog {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(REMINDERS_KEY) ?? "null");
+    if (isRecord(parsed) && parsed.day === day && Array.isArray(parsed.fired)) {
+      return {
+        day,
+        fired: parsed.fired.filter((k): k is string => typeof k === "string"),
+        snoozed: isRecord(parsed.snoozed)
+          ? Object.fromEntries(
+              Object.entries(parsed.snoozed).filter(
+                (e): e is [string, number] => typeof e[1] === "number" && Number.isFinite(e[1])
+              )
+            )
+          : {},
+      };
+    }
+  } catch {
+    // ignore
+  }
+  return { day, fired: [], snoozed: {} };
+}
+
+// Rappel renvoyé par le service worker (données de la notification) : forme vérifiée
+function validateReminder(raw: unknown): Reminder | null {
+  if (
+    !isRecord(raw) ||
+    (raw.kind !== "section" && raw.kind !== "task") ||
+    typeof raw.key !== "string" ||
+    typeof raw.boardId !== "string" ||
+    typeof raw.id !== "string" ||
+    typeof raw.title !== "string" ||
+    typeof raw.body !== "string"
+  ) {
+    return null;
+  }
+  const { key, boardId, kind, id, title, body } = raw;
+  return { key, boardId, kind, id, title, body };
+}
+
+function writeReminderLog(log: ReminderLog) {
+  try {
+    localStorage.setItem(REMINDERS_KEY, JSON.stringify(log));
+  } catch {
+    // ignore
+  }
+}
+
+function minutesOf(time: string) {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function dueReminders(t: Translate, boards: Board[], now: Date, log: ReminderLog): Reminder[] {
+  const day = dayKey(now);
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const isDue = (key: string, time: string) => {
+    const snoozedUntil = log.snoozed[key];
+    if (snoozedUntil !== undefined) return snoozedUntil <= now.getTime();
+    if (log.fired.includes(key)) return false;
+    return minutes >= minutesOf(time) && minutes - minutesOf(time) < REMINDER_WINDOW;
+  };
+  const out: Reminder[] = [];
+  for (const b of boards) {
+    const scheduled = b.data.tasks.filter((task) => isScheduled(task, day));
+    const prefix = boards.length > 1 ? `${b.name} · ` : "";
+    for (const s of b.data.sections) {
+      const open = scheduled.filter((task) => task.section === s.id && !task.done);
+      const key = `${b.id}:section:${s.id}`;
+      if (!s.startTime || open.length === 0 || !isDue(key, s.startTime)) continue;
+      out.push({
+        key,
+        boardId: b.id,
+        kind: "section",
+        id: s.id,
+        title: prefix + t("reminder.sectionStarts", { section: s.name }),
+        body: t("reminder.tasksLeft", {
+          count: open.length,
+          titles: open.map((task) => task.title).join(", "),
+        }),
+      });
+    }
+    for (const task of scheduled) {
+      const key = `${b.id}:task:${task.id}`;
+      if (!task.reminder || task.done || !isDue(key, task.reminder)) continue;
+      out.push({
+        key,
+        boardId: b.id,
+        kind: "task",
+        id: task.id,
+        title: task.title,
+        body: `${prefix}${sectionName(b.data.sections, task.section)} · ${task.reminder}`,
+      });
+    }
+  }
+  return out;
+}
+
+// Via le service worker la notification porte les actions ; sinon une notification simple
+function showReminderNotification(t: Translate, r: Reminder) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  const options = { body: r.body, tag: r.key, icon: `${import.meta.env.BASE_URL}icon-192.png` };
+  if (navigator.serviceWorker?.controller) {
+    navigator.serviceWorker.ready
+      .then((reg) =>
+        reg.showNotification(r.title, {
+          ...options,
+          data: r,
+          actions: [
+            {
+              action: "done",
+              title: t(r.kind === "task" ? "reminder.markDone" : "reminder.markAllDone"),
+            },
+            { action: "snooze", title: t("reminder.snooze", { minutes: SNOOZE_MINUTES }) },
+          ],
+        } as NotificationOptions)
+      )
+      .catch(() => {
+        // ignore
+      });
+    return;
+  }
+  new Notification(r.title, options);
+}
+
+/* ---------- Minuteur et temps passé ---------- */
+
+const POMODORO_MINUTES = 25;
+const BREAK_MINUTES = 5;
+
+function sessionsTotal(sessions?: TimeSession[]) {
+  return (sessions ?? []).reduce((sum, x) => sum + x.end - x.start, 0);
+}
+
+// Temps passé sur la journée `day`, minuteur en cours compris (coupé à minuit)
+function timeSpent(task: Task, day: string, now: number) {
+  const date = parseDay(day);
+  const from = date.getTime();
+  const to = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+  const running = task.timer ? [{ start: task.timer.start, end: now }] : [];
+  return [...(task.sessions ?? []), ...running].reduce(
+    (sum, x) => sum + Math.max(0, Math.min(x.end, to) - Math.max(x.start, from)),
+    0
+  );
+}
+
+// "1 h 05", "25 min" ; chaîne vide sous la minute
+function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Cadran du minuteur : "04:59" ou "1:02:03"
+function formatClock(ms: number) {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const mm = String(Math.floor((total % 3600) / 60)).padStart(2, "0");
+  const ss = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+// Un Pomodoro dure 25 min ; avec `autoDone`, le minuteur s'arrête aussi à la durée prévue
+function startTimer(task: Task, pomodoro: boolean, day: string, at: number): Task {
+  let until = pomodoro ? at + POMODORO_MINUTES * 60_000 : undefined;
+  if (task.planned && task.autoDone) {
+    const left = Math.max(0, task.planned * 60_000 - timeSpent(task, day, at));
+    until = Math.min(until ?? Infinity, at + left);
+  }
+  return { ...task, timer: { start: at, until, pomodoro: pomodoro || undefined } };
+}
+
+function stopTimer(task: Task, day: string, at: number): Task {
+  if (!task.timer) return task;
+  const end = Math.min(at, task.timer.until ?? at);
+  const sessions =
+    end > task.timer.start
+      ? [...(task.sessions ?? []), { start: task.timer.start, end }]
+      : task.sessions;
+  const next: Task = { ...task, sessions, timer: undefined };
+  const reached = !!task.planned && timeSpent(next, day, end) >= task.planned * 60_000;
+  return task.autoDone && reached ? { ...next, done: true } : next;
+}
+
+type FinishedTimer = { boardId: string; task: Task; pomodoro: boolean };
+
+// Minuteurs arrivés à échéance sur tous les tableaux, comme `rolloverBoards`
+function finishDueTimers(boards: Board[], at: number) {
+  const finished: FinishedTimer[] = [];
+  const next = boards.map((b) => {
+    const expired = b.data.tasks.some((t) => t.timer?.until !== undefined && t.timer.until <= at);
+    if (!expired) return b;
+    const tasks = b.data.tasks.map((t) => {
+      if (t.timer?.until === undefined || t.timer.until > at) return t;
+      const stopped = { ...stopTimer(t, b.data.lastActiveDay, at), updatedAt: at };
+      finished.push({ boardId: b.id, task: stopped, pomodoro: !!t.timer.pomodoro });
+      return stopped;
+    });
+    return { ...b, data: { ...b.data, tasks } };
+  });
+  return { boards: finished.length > 0 ? next : boards, finished };
+}
+
+function showTimerNotification(title: string, body: string, tag: string) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  const options = { body, tag, icon: `${import.meta.env.BASE_URL}icon-192.png` };
+  if (navigator.serviceWorker?.controller) {
+    navigator.serviceWorker.ready
+      .then((reg) => reg.showNotification(title, options))
+      .catch(() => {
+        // ignore
+      });
+    return;
+  }
+  new Notification(title, options);
+}
+
+/* ---------- Recherche et vues enregistrées ---------- */
+
+function stringList(raw: unknown) {
+  return Array.isArray(raw) ? raw.filter((x): x is string => typeof x === "string" && !!x) : [];
+}
+
+function validateFilter(raw: unknown): BoardFilter {
+  if (!isRecord(raw)) return EMPTY_FILTER;
+  const day = (v: unknown) => (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "");
+  return {
+    query: typeof raw.query === "string" ? raw.query : "",
+    sections: stringList(raw.sections),
+    tags: stringList(raw.tags),
+    tagMatch: raw.tagMatch === "all" ? "all" : "any",
+    status: raw.status === "todo" || raw.status === "done" ? raw.status : "all",
+    createdFrom: day(raw.createdFrom),
+    createdTo: day(raw.createdTo),
+  };
+}
+
+// ?q=…&sections=a,b&tags=x,y&match=all&status=todo&from=…&to=… (favoris, liens partagés)
+function filterToSearch(filter: BoardFilter) {
+  const params = new URLSearchParams();
+  if (filter.query) params.set("q", filter.query);
+  if (filter.sections.length > 0) params.set("sections", filter.sections.join(","));
+  if (filter.tags.length > 0) params.set("tags", filter.tags.join(","));
+  if (filter.tagMatch === "all") params.set("match", "all");
+  if (filter.status !== "all") params.set("status", filter.status);
+  if (filter.createdFrom) params.set("from", filter.createdFrom);
+  if (filter.createdTo) params.set("to", filter.createdTo);
+  return params;
+}
+
+function filterFromSearch(search: string): BoardFilter {
+  const params = new URLSearchParams(search);
+  const list = (key: string) => (params.get(key) ?? "").split(",").filter(Boolean);
+  return validateFilter({
+    query: params.get("q") ?? "",
+    sections: list("sections"),
+    tags: list("tags"),
+    tagMatch: params.get("match"),
+    status: params.get("status"),
+    createdFrom: params.get("from"),
+    createdTo: params.get("to"),
+  });
+}
+
+function sameFilter(a: BoardFilter, b: BoardFilter) {
+  return filterToSearch(a).toString() === filterToSearch(b).toString();
+}
+
+// Nombre de critères actifs, recherche comprise
+function activeCriteria(filter: BoardFilter) {
+  return [
+    filter.query.trim(),
+    filter.sections.length,
+    filter.tags.length,
+    filter.status !== "all",
+    filter.createdFrom || filter.createdTo,
+  ].filter(Boolean).length;
+}
+
+function searchTerms(query: string) {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Chaque mot cherché doit apparaître dans le titre, une note ou un tag
+function matchesFilter(task: Task, filter: BoardFilter, terms: string[]) {
+  if (filter.status === "todo" && task.done) return false;
+  if (filter.status === "done" && !task.done) return false;
+  if (filter.tags.length > 0) {
+    const own = task.tags ?? [];
+    const hit =
+      filter.tagMatch === "all"
+        ? filter.tags.every((name) => own.some((x) => sameTag(x, name)))
+        : filter.tags.some((name) => own.some((x) => sameTag(x, name)));
+    if (!hit) return false;
+  }
+  if (filter.createdFrom || filter.createdTo) {
+    const day = dayKey(new Date(task.createdAt));
+    if (filter.createdFrom && day < filter.createdFrom) return false;
+    if (filter.createdTo && day > filter.createdTo) return false;
+  }
+  if (terms.length === 0) return true;
+  const haystack = [task.title, ...(task.notes ?? []).map((n) => n.text), ...(task.tags ?? [])]
+    .join("\n")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+  // groupe capturant : les correspondances restent dans le tableau, aux indices impairs
+  const parts = text.split(new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi"));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark
+            key={i}
+            style={{
+              background: COLOR.highlight,
+              color: COLOR.onHighlight,
+              borderRadius: RADIUS.sm,
+            }}
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+/* ---------- Notes : Markdown limité, rendu sans HTML brut ---------- */
+
+function notesFromText(text: string | undefined, createdAt: number): Note[] | undefined {
+  const trimmed = text?.trim();
+  return trimmed ? [{ id: uid(), text: trimmed, createdAt }] : undefined;
+}
+
+// Fil à plat (CSV, modèles) : une note par paragraphe
+function notesText(notes?: Note[]) {
+  return (notes ?? []).map((n) => n.text).join("\n\n");
+}
+
+// Seulement http(s) et mailto : ni javascript: ni data:
+function safeHref(url: string) {
+  return /^(https?:\/\/|mailto:)/i.test(url) ? url : undefined;
+}
+
+// **gras**, *italique*, `code`, [texte](url) et adresses http(s) nues
+const INLINE_MARKDOWN =
+  /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|https?:\/\/[^\s<]*[^\s<.,;:!?)])/g;
+
+function renderInline(text: string, terms: string[], key: string): React.ReactNode[] {
+  const out: React.ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE_MARKDOWN)) {
+    const at = m.index;
+    const token = m[0];
+    const k = `${key}-${at}`;
+    if (at > last) {
+      out.push(<Highlight key={`${key}-${last}`} text={text.slice(last, at)} terms={terms} />);
+    }
+    if (token.startsWith("**")) {
+      out.push(<strong key={k}>{renderInline(token.slice(2, -2), terms, k)}</strong>);
+    } else if (token.startsWith("*")) {
+      out.push(<em key={k}>{renderInline(token.slice(1, -1), terms, k)}</em>);
+    } else if (token.startsWith("`")) {
+      out.push(<code key={k}>{token.slice(1, -1)}</code>);
+    } else {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token);
+      const label = link ? link[1] : token;
+      const href = safeHref(link ? link[2] : token);
+      out.push(
+        href ? (
+          <a key={k} href={href} target="_blank" rel="noopener noreferrer" style={{ color: "inherit" }}>
+            <Highlight text={label} terms={terms} />
+          </a>
+        ) : (
+          <Highlight key={k} text={label} terms={terms} />
+        )
+      );
+    }
+    last = at + token.length;
+  }
+  if (last < text.length) {
+    out.push(<Highlight key={`${key}-${last}`} text={text.slice(last)} terms={terms} />);
+  }
+  return out;
+}
+
+const BULLET_ITEM = /^\s*[-*+]\s+/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+/;
+
+// Paragraphes séparés par une ligne vide, listes "- " ou "1. " ; tout le reste reste du texte
+function Markdown({ text, terms = [] }: { text: string; terms?: string[] }) {
+  const lines = text.split(/\r?\n/);
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const item = BULLET_ITEM.test(lines[i])
+      ? BULLET_ITEM
+      : NUMBERED_ITEM.test(lines[i])
+        ? NUMBERED_ITEM
+        : null;
+    if (item) {
+      const items: string[] = [];
+      while (i < lines.length && item.test(lines[i])) items.push(lines[i++].replace(item, ""));
+      const children = items.map((line, j) => (
+        <li key={j}>{renderInline(line, terms, `${start}-${j}`)}</li>
+      ));
+      blocks.push(
+        item === BULLET_ITEM ? (
+          <ul key={start} style={{ margin: 0, paddingLeft: 20 }}>
+            {children}
+          </ul>
+        ) : (
+          <ol key={start} style={{ margin: 0, paddingLeft: 20 }}>
+            {children}
+          </ol>
+        )
+      );
+      continue;
+    }
+    const paragraph: React.ReactNode[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !NUMBERED_ITEM.test(lines[i])
+    ) {
+      if (paragraph.length > 0) paragraph.push(<br key={`br-${i}`} />);
+      paragraph.push(...renderInline(lines[i], terms, String(i)));
+      i++;
+    }
+    blocks.push(
+      <p key={start} style={{ margin: 0 }}>
+        {paragraph}
+      </p>
+    );
+  }
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xxs, overflowWrap: "anywhere" }}>
+      {blocks}
+    </div>
+  );
+}
+
+function NoteView({ note, terms }: { note: Note; terms: string[] }) {
+  const { t, language } = useI18n();
+  return (
+    <div style={{ borderLeft: `3px solid ${COLOR.borderStrong}`, paddingLeft: SPACE.sm }}>
+      <div style={{ fontSize: 11, opacity: 0.6 }}>
+        {formatDateTime(language, note.createdAt)}
+        {note.editedAt ? ` · ${t("notes.edited")}` : ""}
+      </div>
+      <Markdown text={note.text} terms={terms} />
+    </div>
+  );
+}
+
+// Sur la carte : la dernière note, les précédentes dans une zone repliable
+function CardNotes({ notes, terms }: { notes: Note[]; terms: string[] }) {
+  const { t } = useI18n();
+  const older = notes.slice(0, -1);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xs }}>
+      {older.length > 0 ? (
+        <details>
+          <summary style={{ cursor: "pointer", fontSize: 12, opacity: 0.7 }}>
+            💬 {t("notes.earlier", { count: older.length })}
+          </summary>
+          <div
+            style={{ display: "flex", flexDirection: "column", gap: SPACE.xs, marginTop: SPACE.xs }}
+          >
+            {older.map((n) => (
+              <NoteView key={n.id} note={n} terms={terms} />
+            ))}
+          </div>
+        </details>
+      ) : null}
+      <NoteView note={notes[notes.length - 1]} terms={terms} />
+    </div>
+  );
+}
+
+/* ---------- Ajout rapide ---------- */
+
+type QuickTask = {
+  title: string;
+  section: string;
+  tags: string[];
+  comment?: string;
+  // "@xyz" qui ne correspond à aucune section : la tâche part dans la section par défaut
+  unknownSection?: string;
+};
+
+function looseName(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Nom ou id exact d'abord ("@afterwork" pour "After Work"), sinon le début du nom ("@after")
+function findSection(sections: Section[], query: string) {
+  const q = looseName(query);
+  if (!q) return undefined;
+  return (
+    sections.find((s) => looseName(s.name) === q || looseName(s.id) === q) ??
+    sections.find((s) => looseName(s.name).startsWith(q))
+  );
+}
+
+// "Read 20 pages @midday #Study // chapter 4" : @section, #tag (plusieurs), // commentaire
+function parseQuickLine(line: string, sections: Section[], fallback: string): QuickTask | null {
+  const at = line.search(/(^|\s)\/\/(\s|$)/);
+  const head = at === -1 ? line : line.slice(0, at);
+  const comment = at === -1 ? "" : line.slice(at).trim().slice(2).trim();
+  let section = fallback;
+  let unknownSection: string | undefined;
+  const tags: string[] = [];
+  const words = head.split(/\s+/).filter((word) => {
+    if (word.length > 1 && word.startsWith("@")) {
+      const found = findSection(sections, word.slice(1));
+      if (found) section = found.id;
+      else unknownSection = word.slice(1);
+      return false;
+    }
+    if (word.length > 1 && word.startsWith("#")) {
+      tags.push(word.slice(1));
+      return false;
+    }
+    return true;
+  });
+  const title = clampStr(words.join(" "));
+  if (!title) return null;
+  return {
+    title,
+    section,
+    tags: parseTags(tags.join(",")),
+    comment: comment || undefined,
+    unknownSection,
+  };
+}
+
+function parseQuickAdd(text: string, sections: Section[]) {
+  return text
+    .split(/\r?\n/)
+    .map((line) => parseQuickLine(line, sections, sections[0].id))
+    .filter((q): q is QuickTask => q !== null);
+}
+
+// Nouvelles tâches en fin de colonne, dans l'ordre des lignes
+function quickTasks(tasks: Task[], parsed: QuickTask[]): Task[] {
+  const now = Date.now();
+  const next = new Map<string, number>();
+  return parsed.map((q) => {
+    const order =
+      next.get(q.section) ??
+      tasks.filter((t) => t.section === q.section).reduce((m, t) => Math.max(m, t.order ?? -1), -1) +
+        1;
+    next.set(q.section, order + 1);
+    return {
+      id: uid(),
+      title: q.title,
+      section: q.section,
+      tags: q.tags.length > 0 ? q.tags : undefined,
+      done: false,
+      notes: notesFromText(q.comment, now),
+      createdAt: now,
+      order,
+    };
+  });
+}
+
+/* ---------- Sélection multiple ---------- */
+
+// Les cartes déplacées gardent leur ordre relatif, à la suite de la colonne cible
+function moveTasks(tasks: Task[], ids: Set<string>, section: string) {
+  const moving = tasks.filter((t) => ids.has(t.id) && t.section !== section).sort(compareOrder);
+  if (moving.length === 0) return tasks;
+  const end =
+    tasks.filter((t) => t.section === section).reduce((m, t) => Math.max(m, t.order ?? -1), -1) + 1;
+  const order = new Map(moving.map((t, i) => [t.id, end + i]));
+  return tasks.map((t) => (order.has(t.id) ? { ...t, section, order: order.get(t.id) } : t));
+}
+
+// Copie non cochée, sans temps passé ni minuteur, avec de nouveaux identifiants
+function copyTask(t: Task, now: number): Task {
+  const fresh = resetTask(t);
+  return {
+    ...fresh,
+    id: uid(),
+    createdAt: now,
+    updatedAt: now,
+    rev: undefined,
+    sessions: undefined,
+    timer: undefined,
+    subtasks: fresh.subtasks?.map((st) => ({ ...st, id: uid() })),
+  };
+}
+
+// Copies non cochées, chacune juste après son original ; les colonnes touchées sont renumérotées
+function duplicateTasks(tasks: Task[], ids: Set<string>) {
+  const now = Date.now();
+  const copies = new Map<string, Task>();
+  for (const t of tasks) {
+    if (ids.has(t.id)) copies.set(t.id, copyTask(t, now));
+  }
+  if (copies.size === 0) return tasks;
+
+  const order = new Map<string, number>();
+  const added: Task[] = [];
+  const touched = new Set(tasks.filter((t) => copies.has(t.id)).map((t) => t.section));
+  for (const section of touched) {
+    let i = 0;
+    for (const t of tasks.filter((x) => x.section === section).sort(compareOrder)) {
+      order.set(t.id, i++);
+      const copy = copies.get(t.id);
+      if (copy) added.push({ ...copy, order: i++ });
+    }
+  }
+  const renumbered = tasks.map((t) =>
+    order.has(t.id) && t.order !== order.get(t.id) ? { ...t, order: order.get(t.id) } : t
+  );
+  return [...renumbered, ...added];
+}
+
+/* ---------- Modèles de routines ---------- */
+
+const TEMPLATES_KEY = `${STORAGE_KEY}_templates`;
+
+// Section désignée par son nom : un modèle s'applique à n'importe quel tableau
+type TemplateTask = {
+  title: string;
+  section: string;
+  tags?: string[];
+  comment?: string;
+  subtasks?: string[];
+  recurrence?: Recurrence;
+  priority?: Priority;
+};
+
+type Template = {
+  id: string;
+  name: string;
+  tasks: TemplateTask[];
+  builtIn?: boolean;
+};
+
+const BUILTIN_TEMPLATES: Template[] = [
+  {
+    id: "builtin:morning",
+    name: "Morning routine",
+    builtIn: true,
+    tasks: [
+      { title: "Glass of water", section: "Morning", tags: ["Health"] },
+      {
+        title: "Stretching",
+        section: "Morning",
+        tags: ["Sport"],
+        subtasks: ["Neck", "Back", "Legs"],
+      },
+      { title: "Plan the day", section: "Morning", comment: "Three priorities, no more." },
+      { title: "Make the bed", section: "Morning" },
+    ],
+  },
+  {
+    id: "builtin:study",
+    name: "Study day",
+    builtIn: true,
+    tasks: [
+      { title: "Review yesterday's notes", section: "Morning", tags: ["Study"] },
+      {
+        title: "Deep work session",
+        section: "Morning",
+        tags: ["Study"],
+        subtasks: ["50 min focus", "10 min break", "50 min focus"],
+        priority: "high",
+      },
+      { title: "Flashcards", section: "Midday", tags: ["Study"] },
+      { title: "Practice exercises", section: "After Work", tags: ["Study"] },
+      { title: "Plan tomorrow's session", section: "After Work", tags: ["Study"] },
+    ],
+  },
+  {
+    id: "builtin:workout",
+    name: "Workout",
+    builtIn: true,
+    tasks: [
+      {
+        title: "Warm-up",
+        section: "After Work",
+        tags: ["Sport"],
+        subtasks: ["Jumping jacks", "Mobility"],
+      },
+      {
+        title: "Strength training",
+        section: "After Work",
+        tags: ["Sport"],
+        subtasks: ["Squats", "Push-ups", "Rows", "Plank"],
+        recurrence: { kind: "weekdays", days: [1, 3, 5] },
+      },
+      { title: "Cool-down stretch", section: "After Work", tags: ["Sport"] },
+      { title: "Water and protein", section: "After Work", tags: ["Health"] },
+    ],
+  },
+];
+
+function templateFromTasks(name: string, tasks: Task[], sections: Section[]): Template {
+  return {
+    id: uid(),
+    name,
+    tasks: [...tasks].sort(compareOrder).map((t) => ({
+      title: t.title,
+      section: sectionName(sections, t.section),
+      tags: t.tags,
+      comment: notesText(t.notes) || undefined,
+      subtasks: t.subtasks?.map((st) => st.title),
+      recurrence: t.recurrence,
+      priority: t.priority,
+    })),
+  };
+}
+
+async function loadTemplates(storage: StorageAdapter): Promise<Template[]> {
+  try {
+    const raw = await storage.getItem(TEMPLATES_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return (Array.isArray(parsed) ? parsed : []).flatMap((t): Template[] => {
+      if (!isRecord(t) || typeof t.name !== "string" || !Array.isArray(t.tasks)) return [];
+      const tasks = t.tasks.flatMap((x): TemplateTask[] => {
+        if (!isRecord(x) || typeof x.title !== "string" || !clampStr(x.title)) return [];
+        const tags = Array.isArray(x.tags) ? parseTags(x.tags.join(",")) : [];
+        const subtasks = Array.isArray(x.subtasks)
+          ? x.subtasks.filter((st): st is string => typeof st === "string" && !!clampStr(st))
+          : [];
+        return [
+          {
+            title: clampStr(x.title),
+            section: typeof x.section === "string" ? x.section : "",
+            tags: tags.length > 0 ? tags : undefined,
+            comment: typeof x.comment === "string" && x.comment.trim() ? x.comment : undefined,
+            subtasks: subtasks.length > 0 ? subtasks : undefined,
+            recurrence: validateRecurrence(x.recurrence),
+            priority: PRIORITIES.find((p) => p.value === x.priority)?.value,
+          },
+        ];
+      });
+      return [{ id: typeof t.id === "string" && t.id ? t.id : uid(), name: t.name, tasks }];
+    });
+  } catch {
+    return [];
+  }
+}
+
+// Tâches du modèle absentes de leur section (même titre, casse ignorée = doublon)
+function templatePlan(data: BoardData, template: Template) {
+  const findSection = (name: string) =>
+    data.sections.find((s) => s.id === name) ??
+    data.sections.find((s) => s.name.toLowerCase() === name.toLowerCase());
+  const taken = new Set(data.tasks.map((t) => `${t.section}\n${t.title.toLowerCase()}`));
+  const toAdd: { task: TemplateTask; section?: Section }[] = [];
+  for (const task of template.tasks) {
+    const section = task.section ? findSection(task.section) : data.sections[0];
+    const key = `${section?.id ?? `new:${task.section}`}\n${task.title.toLowerCase()}`;
+    if (taken.has(key)) continue;
+    taken.add(key);
+    toAdd.push({ task, section });
+  }
+  return { toAdd, skipped: template.tasks.length - toAdd.length };
+}
+
+// Ajout en fin de section ; une section inconnue du tableau est créée
+function applyTemplate(data: BoardData, template: Template): BoardData {
+  const { toAdd } = templatePlan(data, template);
+  if (toAdd.length === 0) return data;
+  const sections = [...data.sections];
+  const tasks = [...data.tasks];
+  const createdAt = Date.now();
+  for (const { task, section: known } of toAdd) {
+    let section = known ?? sections.find((s) => s.name === task.section);
+    if (!section) {
+      section = { id: uid(), name: task.section, color: "#64748b" };
+      sections.push(section);
+    }
+    const sectionId = section.id;
+    const order =
+      tasks.filter((t) => t.section === sectionId).reduce((m, t) => Math.max(m, t.order ?? -1), -1) +
+      1;
+    tasks.push({
+      id: uid(),
+      title: task.title,
+      section: sectionId,
+      tags: task.tags,
+      done: false,
+      notes: notesFromText(task.comment, createdAt),
+      createdAt,
+      order,
+      recurrence: task.recurrence,
+      priority: task.priority,
+      subtasks: task.subtasks?.map((title) => ({ id: uid(), title, done: false })),
+    });
+  }
+  return {
+    ...data,
+    sections,
+    tasks,
+    tags: ensureTags(data.tags, tasks.flatMap((t) => t.tags ?? [])),
+  };
+}
+
+/* ---------- Import / export ---------- */
+
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "section",
+  "tags",
+  "done",
+  "comment",
+  "createdAt",
+  "order",
+  "priority",
+  "due",
+] as const;
+
+type ImportPreview = {
+  format: "json" | "csv";
+  fileName: string;
+  tasks: Task[];
+  sections: Section[];
+  newSections: Section[];
+  tags: Tag[];
+  history: DayRecord[];
+  // en-tête du CSV : seules ces colonnes sont fusionnées dans les tâches existantes
+  columns: string[];
+  errors: string[];
+};
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(rows: string[][]) {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
+
+// RFC 4180 : champs entre guillemets, "" pour un guillemet, retours à la ligne autorisés
+function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function tasksToCsv(tasks: Task[], sections: Section[]) {
+  const rows = [...tasks].sort(compareOrder).map((t) => [
+    t.id,
+    t.title,
+    sectionName(sections, t.section),
+    (t.tags ?? []).join("; "),
+    t.done ? "true" : "false",
+    notesText(t.notes),
+    new Date(t.createdAt).toISOString(),
+    t.order === undefined ? "" : String(t.order),
+    t.priority ?? "",
+    t.due ?? "",
+  ]);
+  return toCsv([[...CSV_COLUMNS], ...rows]);
+}
+
+function parseCsvImport(
+  t: Translate,
+  text: string,
+  fileName: string,
+  sections: Section[]
+): ImportPreview {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const errors: string[] = [];
+  const tasks: Task[] = [];
+  const newSections: Section[] = [];
+  const columns = (header ?? []).map((h) => h.trim());
+  const col = new Map(columns.map((h, i) => [h, i]));
+  const preview = { format: "csv" as const, fileName, sections, tags: [], history: [], columns };
+  if (!col.has("title")) {
+    errors.push(t("import.noTitleColumn"));
+    return { ...preview, tasks, newSections, errors };
+  }
+
+  const seenIds = new Set<string>();
+  const get = (r: string[], name: string) => {
+    const i = col.get(name);
+    return i === undefined ? "" : (r[i] ?? "").trim();
+  };
+
+  rows.forEach((r, idx) => {
+    const line = idx + 2;
+    const problems: string[] = [];
+
+    const title = clampStr(get(r, "title"));
+    if (!title) problems.push(t("import.missingTitle"));
+
+    const doneRaw = get(r, "done").toLowerCase();
+    const done = ["true", "1", "yes", "x"].includes(doneRaw);
+    if (doneRaw && !done && !["false", "0", "no"].includes(doneRaw)) {
+      problems.push(t("import.badDone", { value: get(r, "done") }));
+    }
+
+    const createdRaw = get(r, "createdAt");
+    const createdAt = !createdRaw
+      ? Date.now()
+      : /^\d+$/.test(createdRaw)
+        ? Number(createdRaw)
+        : Date.parse(createdRaw);
+    if (Number.isNaN(createdAt)) problems.push(t("import.badCreatedAt", { value: createdRaw }));
+
+    const orderRaw = get(r, "order");
+    const order = orderRaw === "" ? undefined : Number(orderRaw);
+    if (order !== undefined && !Number.isFinite(order)) {
+      problems.push(t("import.badOrder", { value: orderRaw }));
+    }
+
+    const priorityRaw = get(r, "priority").toLowerCase();
+    const priority = PRIORITIES.find((p) => p.value === priorityRaw)?.value;
+    if (priorityRaw && !priority) {
+      problems.push(t("import.badPriority", { value: get(r, "priority") }));
+    }
+
+    const due = get(r, "due") || undefined;
+    if (due !== undefined && !isDue(due)) problems.push(t("import.badDue", { value: due }));
+
+    if (problems.length > 0) {
+      errors.push(t("import.rowError", { line, problems: problems.join("; ") }));
+      return;
+    }
+
+    // Section retrouvée par id ou par nom ; inconnue, elle sera créée
+    const sectionRaw = get(r, "section");
+    const known = [...sections, ...newSections];
+    let section =
+      known.find((s) => s.id === sectionRaw) ??
+      known.find((s) => s.name.toLowerCase() === sectionRaw.toLowerCase());
+    if (!section && sectionRaw) {
+      section = { id: uid(), name: sectionRaw, color: "#64748b" };
+      newSections.push(section);
+    }
+
+    // "category" : colonne des exports antérieurs aux tags
+    const tags = parseTags((get(r, "tags") || get(r, "category")).replace(/;/g, ","));
+
+    let id = get(r, "id") || uid();
+    if (seenIds.has(id)) id = uid();
+    seenIds.add(id);
+
+    tasks.push({
+      id,
+      title,
+      section: (section ?? sections[0]).id,
+      tags: tags.length > 0 ? tags : undefined,
+      done,
+      notes: notesFromText(get(r, "comment"), createdAt),
+      createdAt,
+      order,
+      priority,
+      due,
+    });
+  });
+
+  return { ...preview, tasks, newSections, errors };
+}
+
+// Fusion d'une ligne CSV : le reste de la tâche (checklist, rappel, séances, révision…) est gardé
+function mergeCsvTask(existing: Task, row: Task, columns: string[]): Task {
+  const has = (c: string) => columns.includes(c);
+  const next: Task = { ...existing };
+  if (has("title")) next.title = row.title;
+  if (has("section")) next.section = row.section;
+  if (has("tags") || has("category")) next.tags = row.tags;
+  if (has("done")) next.done = row.done;
+  // le fil de notes n'est remplacé que si son texte a changé
+  if (has("comment") && notesText(existing.notes) !== notesText(row.notes)) next.notes = row.notes;
+  if (has("createdAt")) next.createdAt = row.createdAt;
+  if (has("order")) next.order = row.order;
+  if (has("priority")) next.priority = row.priority;
+  if (has("due")) next.due = row.due;
+  return next;
+}
+
+function parseJsonImport(
+  t: Translate,
+  text: string,
+  fileName: string,
+  sections: Section[]
+): ImportPreview {
+  const empty: ImportPreview = {
+    format: "json",
+    fileName,
+    tasks: [],
+    sections,
+    newSections: [],
+    tags: [],
+    history: [],
+    columns: [],
+    errors: [],
+  };
+  let migrated: unknown;
+  try {
+    const envelope = readEnvelope(JSON.parse(text));
+    // Un fichier peut contenir plusieurs tableaux : on importe celui qui était actif
+    const ws = migrate(envelope.version, envelope.data);
+    const src = isRecord(ws) ? ws : {};
+    const boards = Array.isArray(src.boards) ? src.boards.filter(isRecord) : [];
+    migrated = (boards.find((b) => b.id === src.activeBoardId) ?? boards[0])?.data;
+  } catch (err) {
+    return { ...empty, errors: [t("import.notBoardFile", { error: String(err) })] };
+  }
+
+  const board = validateBoard(migrated);
+  const rawTasks = isRecord(migrated) && Array.isArray(migrated.tasks) ? migrated.tasks : [];
+  const errors = rawTasks.flatMap((raw, idx) =>
+    isRecord(raw) && typeof raw.title === "string" && clampStr(raw.title)
+      ? []
+      : [t("import.taskNoTitle", { index: idx + 1 })]
+  );
+  const knownIds = new Set(sections.map((s) => s.id));
+  return {
+    ...empty,
+    tasks: board.data.tasks,
+    sections: board.data.sections,
+    newSections: board.data.sections.filter((s) => !knownIds.has(s.id)),
+    tags: board.data.tags,
+    history: board.data.history,
+    errors,
+  };
+}
+
+function IconX() {
+  const { t } = useI18n();
+  return (
+    <span
+      role="img"
+      aria-label={t("status.notDone")}
+      title={t("status.notDone")}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        justifyContent: "center",
+        width: 22,
+        height: 22,
+        borderRadius: RADIUS.sm,
+        border: `1px solid ${COLOR.dangerBorder}`,
+        color: COLOR.danger,
+        fontWeight: 800,
+        lineHeight: 1,
+      }}
+    >
+      ✕
+    </span>
+  );
+}
+
+function IconCheck() {
+  const { t } = useI18n();
+  return (
+    <span
+      role="img"
+      aria-label={t("status.done")}
+      title={t("status.done")}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        justifyContent: "center",
+        width: 22,
+        height: 22,
+        borderRadius: RADIUS.sm,
+        border: `1px solid ${COLOR.successBorder}`,
+        color: COLOR.success,
+        fontWeight: 800,
+        lineHeight: 1,
+      }}
+    >
+      ✓
+    </span>
+  );
+}
+
+function ProgressRing({ value }: { value: number }) {
+  const { t } = useI18n();
+  const r = 22;
+  const c = 2 * Math.PI * r;
+  const dash = (value / 100) * c;
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: SPACE.md }}>
+      <svg width="56" height="56" viewBox="0 0 56 56">
+        <circle
+          cx="28"
+          cy="28"
+          r={r}
+          style={{ stroke: COLOR.track }}
+          strokeWidth="6"
+          fill="none"
+        />
+        <circle
+          cx="28"
+          cy="28"
+          r={r}
+          stroke="currentColor"
+          strokeWidth="6"
+          fill="none"
+          strokeLinecap="round"
+          strokeDasharray={`${dash} ${c - dash}`}
+          transform="rotate(-90 28 28)"
+        />
+      </svg>
+      <div>
+        <div style={{ fontSize: 14, opacity: 0.7 }}>{t("progress.global")}</div>
+        <div style={{ fontSize: 22, fontWeight: 800 }}>{value}%</div>
+      </div>
+    </div>
+  );
+}
+
+/* ---------- Statistiques ---------- */
+
+type RateRow = { label: string; done: number; total: number; color?: string };
+
+function shiftDay(key: string, delta: number) {
+  const d = parseDay(key);
+  d.setDate(d.getDate() + delta);
+  return dayKey(d);
+}
+
+function dayProgress(record: DayRecord, mode: ProgressMode) {
+  const score = record.tasks.reduce((sum, t) => sum + taskScore(t, mode), 0);
+  return pct(score, record.tasks.length);
+}
+
+// Taux de complétion sur les `range` derniers jours, regroupés par `keysOf`
+// (une tâche à plusieurs tags compte pour chacun d'eux)
+function completionRates(
+  records: DayRecord[],
+  today: string,
+  range: number,
+  keysOf: (t: Task, record: DayRecord) => string[]
+) {
+  const from = shiftDay(today, -(range - 1));
+  const rows = new Map<string, { done: number; total: number }>();
+  for (const r of records) {
+    if (r.date < from || r.date > today) continue;
+    for (const t of r.tasks) {
+      for (const key of keysOf(t, r)) {
+        const row = rows.get(key) ?? { done: 0, total: 0 };
+        row.total++;
+        if (t.done) row.done++;
+        rows.set(key, row);
+      }
+    }
+  }
+  return rows;
+}
+
+// Série en cours et meilleure série : jours prévus consécutifs où la tâche a été faite.
+// Un jour sans enregistrement casse la série ; aujourd'hui ne la casse pas tant qu'il n'est pas fini.
+function taskStreaks(task: Task, records: DayRecord[], today: string) {
+  const byDate = new Map(records.map((r) => [r.date, r]));
+  const created = dayKey(new Date(task.createdAt));
+  const first = records.reduce((m, r) => (r.date < m ? r.date : m), today);
+  let day = created > first ? created : first;
+
+  let run = 0;
+  let best = 0;
+  for (; day <= today; day = shiftDay(day, 1)) {
+    if (!isScheduled(task, day)) continue;
+    const done = !!byDate.get(day)?.tasks.find((t) => t.id === task.id)?.done;
+    if (done) {
+      run++;
+      best = Math.max(best, run);
+    } else if (day !== today) {
+      run = 0;
+    }
+  }
+  return { current: run, best };
+}
+
+function RateBars({ rows }: { rows: RateRow[] }) {
+  const { t } = useI18n();
+  if (rows.length === 0) {
+    return <div style={{ fontSize: 13, opacity: 0.6 }}>{t("stats.noData")}</div>;
+  }
+  const rowH = 26;
+  return (
+    <svg width="100%" height={rows.length * rowH} viewBox={`0 0 400 ${rows.length * rowH}`}>
+      {rows.map((r, i) => {
+        const value = pct(r.done, r.total);
+        const y = i * rowH;
+        return (
+          <g key={r.label}>
+            <text x="0" y={y + 17} fontSize="12" fill="currentColor">
+              {r.label.length > 18 ? `${r.label.slice(0, 17)}…` : r.label}
+            </text>
+            <rect x="130" y={y + 6} width="200" height="14" rx="7" style={{ fill: COLOR.track }} />
+            <rect
+              x="130"
+              y={y + 6}
+              width={(value / 100) * 200}
+              height="14"
+              rx="7"
+              style={{ fill: r.color ?? COLOR.success }}
+            />
+            <text x="340" y={y + 17} fontSize="12" fill="currentColor">
+              {value}% ({r.done}/{r.total})
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// Calendrier façon "contributions" : une colonne par semaine, lundi en haut
+function ProgressHeatmap({ values, today }: { values: Map<string, number>; today: string }) {
+  const { language, t } = useI18n();
+  const dayNames = weekdayNames(language, "narrow");
+  const weeks = 18;
+  const cell = 14;
+  const gap = 3;
+  const todayDate = parseDay(today);
+  const offset = (todayDate.getDay() + 6) % 7;
+  const start = shiftDay(today, -(weeks - 1) * 7 - offset);
+
+  const cells: { date: string; col: number; row: number }[] = [];
+  for (let i = 0; i < weeks * 7; i++) {
+    const date = shiftDay(start, i);
+    if (date > today) break;
+    cells.push({ date, col: Math.floor(i / 7), row: i % 7 });
+  }
+
+  return (
+    <svg width={weeks * (cell + gap) + 24} height={7 * (cell + gap) + 4}>
+      {[1, 3, 5].map((d) => (
+        <text key={d} x="0" y={(d - 1) * (cell + gap) + 11} fontSize="10" fill="currentColor">
+          {dayNames[d]}
+        </text>
+      ))}
+      {cells.map((c) => {
+        const v = values.get(c.date);
+        return (
+          <rect
+            key={c.date}
+            x={24 + c.col * (cell + gap)}
+            y={c.row * (cell + gap)}
+            width={cell}
+            height={cell}
+            rx="3"
+            style={{
+              fill:
+                v === undefined
+                  ? COLOR.track
+                  : `color-mix(in srgb, ${COLOR.success} ${Math.round(15 + v * 0.85)}%, transparent)`,
+            }}
+          >
+            <title>
+              {v === undefined
+                ? t("stats.dayNoData", { date: formatDay(language, c.date) })
+                : `${formatDay(language, c.date)}: ${v}%`}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+function Modal({
+  open,
+  title,
+  children,
+  onClose,
+}: {
+  open: boolean;
+  title: string;
+  children: React.ReactNode;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  });
+
+  // Focus piégé dans la fenêtre, Échap pour fermer, focus rendu à l'élément d'origine
+  useEffect(() => {
+    if (!open) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusables = () =>
+      Array.from(
+        dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []
+      );
+    // le premier champ plutôt que le bouton Close quand il y en a un
+    const first = focusables();
+    (first.find((el) => el.matches("input, select, textarea")) ?? first[0])?.focus();
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+      const list = focusables();
+      if (list.length === 0) return;
+      const head = list[0];
+      const tail = list[list.length - 1];
+      if (e.shiftKey && document.activeElement === head) {
+        e.preventDefault();
+        tail.focus();
+      } else if (!e.shiftKey && document.activeElement === tail) {
+        e.preventDefault();
+        head.focus();
+      }
+    }
+    document.addEventListener("keydown", onKeyDown, true);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown, true);
+      previous?.focus();
+    };
+  }, [open]);
+
+  if (!open) return null;
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: COLOR.overlay,
+        color: COLOR.text,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: SPACE.xxl,
+        zIndex: 9999,
+      }}
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          width: "min(720px, 96vw)",
+          background: COLOR.surface,
+          borderRadius: RADIUS.xl,
+          boxShadow: `0 16px 40px ${COLOR.shadowStrong}`,
+          padding: SPACE.xxl,
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: SPACE.lg,
+            marginBottom: SPACE.lg,
+          }}
+        >
+          <div id={titleId} style={{ fontSize: 18, fontWeight: 800 }}>
+            {title}
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              border: `1px solid ${COLOR.border}`,
+              background: COLOR.surface,
+              borderRadius: RADIUS.md,
+              padding: PAD.small,
+              cursor: "pointer",
+            }}
+          >
+            {t("modal.close")}
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Au-dessus d'une colonne, on vise la carte la plus proche de cette colonne ;
+// une colonne vide reste une cible à part entière
+const boardCollision: CollisionDetection = (args) => {
+  // Au clavier (pas de pointeur) : cartes + colonnes vides, la plus proche l'emporte
+  if (!args.pointerCoordinates) {
+    const filled = new Set(
+      args.droppableContainers
+        .filter((c) => !String(c.id).startsWith(COLUMN_PREFIX))
+        .map((c) => c.data.current?.section)
+    );
+    return closestCenter({
+      ...args,
+      droppableContainers: args.droppableContainers.filter(
+        (c) =>
+          c.id !== args.active.id &&
+          (!String(c.id).startsWith(COLUMN_PREFIX) || !filled.has(c.data.current?.section))
+      ),
+    });
+  }
+  const column = pointerWithin(args).find((c) => String(c.id).startsWith(COLUMN_PREFIX));
+  if (!column) return closestCenter(args);
+  const section = String(column.id).slice(COLUMN_PREFIX.length);
+  const cards = args.droppableContainers.filter(
+    (c) => c.data.current?.section === section && !String(c.id).startsWith(COLUMN_PREFIX)
+  );
+  if (cards.length === 0) return [column];
+  return closestCenter({ ...args, droppableContainers: cards });
+};
+
+function DroppableColumn({
+  id,
+  label,
+  disabled,
+  style,
+  children,
+}: {
+  id: string;
+  label: string;
+  disabled?: boolean;
+  style: React.CSSProperties;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: COLUMN_PREFIX + id,
+    data: { section: id },
+    disabled,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      role="region"
+      aria-label={label}
+      tabIndex={-1}
+      data-column-id={id}
+      style={{ ...style, outline: isOver ? `2px dashed ${COLOR.dropOutline}` : undefined }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// La poignée porte seule les listeners : les boutons et cases de la carte restent cliquables
+function SortableTaskCard({
+  id,
+  section,
+  label,
+  disabled,
+  selected,
+  onSelect,
+  children,
+}: {
+  id: string;
+  section: string;
+  label: string;
+  disabled?: boolean;
+  selected?: boolean;
+  onSelect?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id, disabled, data: { section } });
+  const { t } = useI18n();
+
+  // Pendant le drag, la carte d'origine sert d'emplacement fantôme (la DragOverlay suit le curseur)
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.35 : 1,
+    outline: isDragging
+      ? `2px dashed ${COLOR.dropOutline}`
+      : selected
+        ? `2px solid ${COLOR.selection}`
+        : undefined,
+    borderRadius: RADIUS.xl,
+  };
+
+  const handle = disabled ? null : (
+    <button
+      ref={setActivatorNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label={t("drag.move", { title: label })}
+      title={t("drag.hint")}
+      style={{
+        border: "none",
+        background: "none",
+        padding: "2px 0",
+        cursor: "grab",
+        touchAction: "none",
+        userSelect: "none",
+        WebkitUserSelect: "none",
+        opacity: 0.45,
+        fontSize: 16,
+        lineHeight: 1,
+      }}
+    >
+      ⠿
+    </button>
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      tabIndex={0}
+      role="group"
+      aria-label={selected ? t("selection.cardSelected", { title: label }) : label}
+      data-card-id={id}
+      data-section-id={section}
+      onClick={onSelect}
+    >
+      {children(handle)}
+    </div>
+  );
+}
+
+export default function JourneyTaskBoard() {
+  const [loaded, setLoaded] = useState<{
+    storage: StorageAdapter;
+    stored: LoadResult;
+    remote: RemoteSync;
+    templates: Template[];
+  } | null>(null);
+  const [themeChoice, setThemeChoice] = useState<ThemeChoice>(readThemeChoice);
+  const [systemName, setSystemName] = useState<ThemeName>(systemTheme);
+  const theme = themeChoice === "system" ? systemName : themeChoice;
+  // Langue du navigateur jusqu'au chargement, puis celle enregistrée dans l'espace de travail
+  const [language, setLanguage] = useState<Language>(detectLanguage);
+  const i18n = useMemo(() => makeI18n(language), [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Thème : appliqué avant l'affichage pour éviter un flash de l'autre palette
+  useLayoutEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  // prefers-color-scheme / prefers-contrast : suivis tant que le choix est "System"
+  useEffect(() => {
+    const queries = [
+      window.matchMedia("(prefers-color-scheme: dark)"),
+      window.matchMedia("(prefers-contrast: more)"),
+    ];
+    const onChange = () => setSystemName(systemTheme());
+    for (const q of queries) q.addEventListener("change", onChange);
+    return () => {
+      for (const q of queries) q.removeEventListener("change", onChange);
+    };
+  }, []);
+
+  function changeTheme(choice: ThemeChoice) {
+    setThemeChoice(choice);
+    try {
+      localStorage.setItem(THEME_KEY, choice);
+    } catch {
+      // ignore
+    }
+  }
+
+  // Load
+  useEffect(() => {
+    let cancelled = false;
+    openStorage()
+      .then(async (storage) => ({
+        storage,
+        stored: await loadStored(storage),
+        remote: await loadRemote(storage),
+        templates: await loadTemplates(storage),
+      }))
+      .then((result) => {
+        if (cancelled) return;
+        setLanguage(result.stored.workspace.language);
+        setLoaded(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!loaded) {
+    return (
+      <div style={{ padding: 24, fontFamily: "system-ui, sans-serif", opacity: 0.6 }}>
+        {i18n.t("app.loading")}
+      </div>
+    );
+  }
+  return (
+    <I18nContext.Provider value={i18n}>
+      <TaskBoard
+        {...loaded}
+        themeChoice={themeChoice}
+        theme={theme}
+        onThemeChange={changeTheme}
+        onLanguageChange={setLanguage}
+      />
+    </I18nContext.Provider>
+  );
+}
+
+function TaskBoard({
+  storage,
+  stored,
+  remote: initialRemote,
+  templates: initialTemplates,
+  themeChoice,
+  theme,
+  onThemeChange,
+  onLanguageChange,
+}: {
+  storage: StorageAdapter;
+  stored: LoadResult;
+  remote: RemoteSync;
+  templates: Template[];
+  themeChoice: ThemeChoice;
+  theme: ThemeName;
+  onThemeChange: (choice: ThemeChoice) => void;
+  onLanguageChange: (language: Language) => void;
+}) {
+  const i18n = useI18n();
+  const { t, language } = i18n;
+  const [timeline, setTimeline] = useState<Timeline>(() => ({
+    present: rolloverBoards(stored.workspace.boards, dayKey()),
+    past: [],
+    future: [],
+  }));
+  // ?board=… (favori d'un tableau filtré), sinon le dernier tableau actif
+  const [activeBoardId, setActiveBoardId] = useState(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get("board");
+    return stored.workspace.boards.some((b) => b.id === fromUrl)
+      ? (fromUrl as string)
+      : stored.workspace.activeBoardId;
+  });
+  const [boardsOpen, setBoardsOpen] = useState(false);
+  const [remote, setRemote] = useState<RemoteSync>(initialRemote);
+  const [syncState, setSyncState] = useState<{
+    status: "idle" | "syncing" | "offline" | "error";
+    message?: string;
+    at?: number;
+  }>({ status: "idle" });
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [alerts, setAlerts] = useState<Reminder[]>([]);
+  const [notifyPermission, setNotifyPermission] = useState(() =>
+    typeof Notification === "undefined" ? "unsupported" : Notification.permission
+  );
+  const [endpointDraft, setEndpointDraft] = useState(initialRemote.endpoint);
+  const [conflictChoice, setConflictChoice] = useState<Record<string, "local" | "remote">>({});
+  const [toast, setToast] = useState<{ id: number; message: string; undoable: boolean } | null>(
+    null
+  );
+  const [quarantine, setQuarantine] = useState<unknown[]>(stored.quarantine);
+  const [storageNoticeOpen, setStorageNoticeOpen] = useState(
+    stored.quarantine.length > 0 || stored.repaired > 0 || !!stored.unreadable
+  );
+  const [viewDate, setViewDate] = useState<string>("");
+  const [activeDragId, setActiveDragId] = useState<string | null>(null);
+  const [dragOverride, setDragOverride] = useState<{
+    id: string;
+    section: string;
+    beforeId: string | null;
+  } | null>(null);
+  const [filter, setFilter] = useState<BoardFilter>(() =>
+    filterFromSearch(window.location.search)
+  );
+  const [viewName, setViewName] = useState("");
+  const [tagsOpen, setTagsOpen] = useState(false);
+  const [showUnscheduled, setShowUnscheduled] = useState<boolean>(false);
+
+  const [modalOpen, setModalOpen] = useState(LAUNCH_ACTION === "add-task");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [sectionsOpen, setSectionsOpen] = useState(false);
+  const [dataOpen, setDataOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [statsRange, setStatsRange] = useState<7 | 30 | 90>(30);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
+  const [deletingSectionId, setDeletingSectionId] = useState<string | null>(null);
+  const [deleteTargetId, setDeleteTargetId] = useState("");
+
+  const [formTitle, setFormTitle] = useState("");
+  const [formSection, setFormSection] = useState(
+    () =>
+      (
+        stored.workspace.boards.find((b) => b.id === activeBoardId) ??
+        stored.workspace.boards[0]
+      ).data.sections[0].id
+  );
+  const [formTags, setFormTags] = useState("");
+  const [formNotes, setFormNotes] = useState<Note[]>([]);
+  const [formNoteDraft, setFormNoteDraft] = useState("");
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [formRecurrence, setFormRecurrence] = useState<Recurrence>({ kind: "daily" });
+  const [formReminder, setFormReminder] = useState("");
+  const [formPriority, setFormPriority] = useState<Priority | "">("");
+  const [formDueDate, setFormDueDate] = useState("");
+  const [formDueTime, setFormDueTime] = useState("");
+  const [formPlanned, setFormPlanned] = useState("");
+  const [formAutoDone, setFormAutoDone] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [templates, setTemplates] = useState(initialTemplates);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateSelection, setTemplateSelection] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [bulkTags, setBulkTags] = useState("");
+  const [quickText, setQuickText] = useState("");
+  const [formSubtasks, setFormSubtasks] = useState<Subtask[]>([]);
+  const [formSubtaskDraft, setFormSubtaskDraft] = useState("");
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const boards = timeline.present;
+  const board = boards.find((b) => b.id === activeBoardId) ?? boards[0];
+  const data = board.data;
+  const tasks = data.tasks;
+  const history = data.history;
+  const today = data.lastActiveDay;
+  const sections = data.sections;
+  const progressMode = data.settings.progressMode;
+  const editingTask = editingId ? tasks.find((task) => task.id === editingId) : undefined;
+
+  // Toute mutation passe par ici pour être annulable
+  function setBoards(
+    label: string,
+    update: (prev: Board[]) => Board[],
+    mergeKey?: string,
+    boardId = board.id
+  ) {
+    // un toast "Annuler" ne doit viser que l'action qu'il annonce
+    setToast(null);
+    setTimeline((prev) => {
+      const next = update(prev.present);
+      if (next === prev.present) return prev;
+      const now = Date.now();
+      const last = prev.past[prev.past.length - 1];
+      // Les frappes successives sur un même champ ne font qu'une étape
+      const sameField = last?.mergeKey === mergeKey && last.boardId === boardId;
+      if (mergeKey && sameField && now - last.at < 1000) {
+        const past = [...prev.past.slice(0, -1), { ...last, at: now }];
+        return { present: next, past, future: [] };
+      }
+      const entry: UndoEntry = { label, boardId, boards: prev.present, mergeKey, at: now };
+      return { present: next, past: [...prev.past, entry].slice(-UNDO_LIMIT), future: [] };
+    });
+  }
+
+  // Mutation du tableau affiché
+  function setData(label: string, update: (prev: BoardData) => BoardData, mergeKey?: string) {
+    const id = board.id;
+    setBoards(
+      label,
+      (prev) => {
+        let changed = false;
+        const next = prev.map((b) => {
+          if (b.id !== id) return b;
+          const nextData = update(b.data);
+          if (nextData === b.data) return b;
+          changed = true;
+          if (nextData.tasks === b.data.tasks) return { ...b, data: nextData };
+          // les tâches touchées sont datées pour la synchro serveur
+          const before = new Set(b.data.tasks);
+          const now = Date.now();
+          const tasks = nextData.tasks.map((task) =>
+            before.has(task) ? task : { ...task, updatedAt: now }
+          );
+          return { ...b, data: { ...nextData, tasks } };
+        });
+        return changed ? next : prev;
+      },
+      mergeKey
+    );
+  }
+
+  function setTasks(label: string, next: React.SetStateAction<Task[]>) {
+    setData(label, (prev) => {
+      const nextTasks = typeof next === "function" ? next(prev.tasks) : next;
+      return {
+        ...prev,
+        tasks: nextTasks,
+        tags: ensureTags(prev.tags, nextTasks.flatMap((task) => task.tags ?? [])),
+      };
+    });
+  }
+
+  // `undoable` : le toast annonce la dernière étape d'annulation et propose de l'annuler
+  function showToast(message: string, undoable = true) {
+    setToast({ id: Date.now(), message, undoable });
+  }
+
+  function undo() {
+    const entry = timeline.past[timeline.past.length - 1];
+    if (!entry) return;
+    setTimeline(undoTimeline);
+    revealStep(entry, "undo.doneOnBoard");
+  }
+
+  function redo() {
+    const entry = timeline.future[0];
+    if (!entry) return;
+    setTimeline(redoTimeline);
+    revealStep(entry, "redo.doneOnBoard");
+  }
+
+  // Une étape d'un autre tableau ne s'annule pas en silence : on l'affiche et on le dit
+  function revealStep(entry: UndoEntry, message: MessageKey) {
+    if (entry.boardId === board.id) return;
+    const target =
+      entry.boards.find((b) => b.id === entry.boardId) ??
+      boards.find((b) => b.id === entry.boardId);
+    if (!target) return;
+    if (entry.boards.some((b) => b.id === entry.boardId)) switchBoard(entry.boardId);
+    showToast(t(message, { label: entry.label, board: target.name }), false);
+  }
+
+  const undoRef = useRef({ undo, redo, viewDate });
+  useEffect(() => {
+    undoRef.current = { undo, redo, viewDate };
+  });
+
+  useEffect(() => {
+    if (!toast) return;
+    const id = window.setTimeout(() => setToast(null), 6000);
+    return () => window.clearTimeout(id);
+  }, [toast]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd sur Mac) ; les champs texte gardent leur annulation native
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      // jour passé affiché en lecture seule : rien à annuler, comme les boutons désactivés
+      if (undoRef.current.viewDate) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        undoRef.current.redo();
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Dernier état partagé avec les autres onglets : base des fusions
+  const synced = useRef({
+    boards: stored.workspace.boards,
+    json: JSON.stringify(stored.workspace.boards),
+    language,
+  });
+  const syncChannel = useRef<SyncChannel | null>(null);
+  const legacyCopy = useRef(!!stored.fromLocalStorage);
+
+  // Save
+  useEffect(() => {
+    const envelope: StoredEnvelope = {
+      version: SCHEMA_VERSION,
+      data: { boards, activeBoardId: board.id, language },
+      quarantine,
+    };
+    saveStored(storage, envelope)
+      .then(() => {
+        // l'ancienne copie deviendrait périmée : sans IndexedDB, elle serait rechargée telle quelle
+        if (!legacyCopy.current) return;
+        legacyCopy.current = false;
+        localStorage.removeItem(STORAGE_KEY);
+      })
+      .catch(() => {
+        // ignore
+      });
+    const json = JSON.stringify(boards);
+    if (json === synced.current.json && language === synced.current.language) return;
+    synced.current = { boards, json, language };
+    syncChannel.current?.post(envelope);
+  }, [storage, boards, board.id, language, quarantine]);
+
+  // Service worker : hors ligne, et nouvelle version proposée plutôt qu'imposée
+  const reloadOnUpdate = useRef(false);
+
+  useEffect(() => {
+    if (LAUNCH_ACTION) {
+      const url = new URL(window.location.href);
+      url.searchParams.delete("action");
+      window.history.replaceState(null, "", url);
+    }
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+    let timer = 0;
+    const onControllerChange = () => {
+      if (reloadOnUpdate.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener("controllerchange", onControllerChange);
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .then((reg) => {
+        // pas de proposition à la première installation : rien à recharger
+        const offer = (worker: ServiceWorker | null) => {
+          if (worker && navigator.serviceWorker.controller) setWaitingWorker(worker);
+        };
+        offer(reg.waiting);
+        reg.addEventListener("updatefound", () => {
+          const worker = reg.installing;
+          worker?.addEventListener("statechange", () => {
+            if (worker.state === "installed") offer(worker);
+          });
+        });
+        timer = window.setInterval(() => void reg.update(), 60 * 60_000);
+      })
+      .catch(() => {
+        // pas de service worker : l'application marche, seulement sans le mode hors ligne
+      });
+    return () => {
+      window.clearInterval(timer);
+      navigator.serviceWorker.removeEventListener("controllerchange", onControllerChange);
+    };
+  }, []);
+
+  function applyUpdate() {
+    if (!waitingWorker) return;
+    reloadOnUpdate.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  }
+
+  // Sync serveur : tirer les changements distants, puis envoyer la file locale
+  const boardsRef = useRef(boards);
+  const remoteRef = useRef(remote);
+  const i18nRef = useRef(i18n);
+  const syncing = useRef(false);
+
+  useEffect(() => {
+    boardsRef.current = boards;
+    remoteRef.current = remote;
+    i18nRef.current = i18n;
+  });
+
+  useEffect(() => {
+    storage.setItem(REMOTE_KEY, JSON.stringify(remote)).catch(() => {
+      // ignore
+    });
+  }, [storage, remote]);
+
+  async function syncBoard(endpoint: string, boardId: string) {
+    const current = () => boardsRef.current.find((b) => b.id === boardId);
+    if (!current()) return;
+    let sync = boardSync(remoteRef.current, boardId);
+    const url = syncUrl(endpoint, sync.remoteId);
+
+    // Pull
+    const pulled = await syncRequest(t, `${url}?since=${sync.revision}`);
+    const before = current();
+    if (!before) return;
+    const result = applyPull(
+      before.data.tasks,
+      sync,
+      parseRemoteChanges(pulled.changes),
+      before.data.sections
+    );
+    const revision = typeof pulled.revision === "number" ? pulled.revision : sync.revision;
+    sync = { ...result.sync, revision };
+    if (result.tasks !== before.data.tasks || result.missingSections.length > 0) {
+      setTimeline((prev) =>
+        rebaseTimeline(
+          prev,
+          prev.present.map((b) =>
+            b.id === boardId
+              ? {
+                  ...b,
+                  data: {
+                    ...b.data,
+                    // colonne de rattrapage plutôt que de déplacer la tâche (et de renvoyer ce déplacement)
+                    sections: [
+                      ...b.data.sections,
+                      ...result.missingSections
+                        .filter((id) => !b.data.sections.some((s) => s.id === id))
+                        .map((id) => ({
+                          id,
+                          name: t("sync.otherDeviceSection"),
+                          color: "#64748b",
+                        })),
+                    ],
+                    tasks: result.tasks,
+                    tags: ensureTags(
+                      b.data.tags,
+                      result.tasks.flatMap((task) => task.tags ?? [])
+                    ),
+                  },
+                }
+              : b
+          )
+        )
+      );
+    }
+
+    // Push
+    const changes = pendingChanges(result.tasks, sync);
+    if (changes.length > 0) {
+      const pushed = await syncRequest(t, url, {
+        method: "POST",
+        body: JSON.stringify({ changes }),
+      });
+      const accepted = new Map<string, number>();
+      for (const r of Array.isArray(pushed.results) ? pushed.results : []) {
+        if (isRecord(r) && r.ok === true && typeof r.id === "string" && typeof r.rev === "number") {
+          accepted.set(r.id, r.rev);
+        }
+      }
+      const base = sync.base.filter((task) => !accepted.has(task.id));
+      for (const c of changes) {
+        const rev = accepted.get(c.id);
+        if (rev !== undefined && c.task) base.push({ ...c.task, rev });
+      }
+      sync = { ...sync, base };
+      // refusés : le serveur a plus récent, ils seront fusionnés au prochain passage
+      setTimeline((prev) =>
+        rebaseTimeline(
+          prev,
+          prev.present.map((b) =>
+            b.id === boardId
+              ? {
+                  ...b,
+                  data: {
+                    ...b.data,
+                    tasks: b.data.tasks.map((task) =>
+                      accepted.has(task.id) ? { ...task, rev: accepted.get(task.id) } : task
+                    ),
+                  },
+                }
+              : b
+          )
+        )
+      );
+    }
+    const done = sync;
+    setRemote((prev) => ({ ...prev, boards: { ...prev.boards, [boardId]: done } }));
+  }
+
+  async function syncAll() {
+    const endpoint = remoteRef.current.endpoint;
+    if (!endpoint || syncing.current) return;
+    syncing.current = true;
+    setSyncState({ status: "syncing" });
+    try {
+      for (const b of boardsRef.current) await syncBoard(endpoint, b.id);
+      setSyncState({ status: "idle", at: Date.now() });
+    } catch (err) {
+      setSyncState(
+        navigator.onLine ? { status: "error", message: String(err) } : { status: "offline" }
+      );
+    } finally {
+      syncing.current = false;
+    }
+  }
+
+  const syncAllRef = useRef(syncAll);
+  useEffect(() => {
+    syncAllRef.current = syncAll;
+  });
+
+  useEffect(() => {
+    if (!remote.endpoint) return;
+    const run = () => void syncAllRef.current();
+    run();
+    const id = window.setInterval(run, SYNC_INTERVAL);
+    window.addEventListener("online", run);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener("online", run);
+    };
+  }, [remote.endpoint]);
+
+  // Envoi peu après chaque modification locale
+  useEffect(() => {
+    if (!remote.endpoint) return;
+    const id = window.setTimeout(() => void syncAllRef.current(), 2000);
+    return () => window.clearTimeout(id);
+  }, [boards, remote.endpoint]);
+
+  const activeSync = boardSync(remote, board.id);
+  const pendingCount = useMemo(
+    () => pendingChanges(tasks, boardSync(remote, board.id)).length,
+    [tasks, remote, board.id]
+  );
+
+  function connectSync() {
+    setRemote((prev) => ({ ...prev, endpoint: clampStr(endpointDraft) }));
+  }
+
+  function disconnectSync() {
+    setRemote((prev) => ({ ...prev, endpoint: "" }));
+    setSyncState({ status: "idle" });
+  }
+
+  // Changer de tableau distant repart de zéro : tout le local sera renvoyé
+  function setRemoteBoardId(remoteId: string) {
+    if (!remoteId || remoteId === activeSync.remoteId) return;
+    const id = board.id;
+    setRemote((prev) => ({
+      ...prev,
+      boards: { ...prev.boards, [id]: { remoteId, revision: 0, base: [], conflicts: [] } },
+    }));
+  }
+
+  function resolveConflict(c: SyncConflict) {
+    const picked = c.fields.filter((f) => conflictChoice[`${c.taskId}:${f}`] === "remote");
+    setTasks(t("undo.resolveConflict"), (prev) =>
+      prev.map((task) =>
+        task.id === c.taskId
+          ? { ...task, ...Object.fromEntries(picked.map((f) => [f, c.remote[f]])) }
+          : task
+      )
+    );
+    const id = board.id;
+    setRemote((prev) => {
+      const current = boardSync(prev, id);
+      return {
+        ...prev,
+        boards: {
+          ...prev.boards,
+          [id]: { ...current, conflicts: current.conflicts.filter((x) => x.taskId !== c.taskId) },
+        },
+      };
+    });
+  }
+
+  const conflictCount = activeSync.conflicts.length;
+  const syncLabel = !remote.endpoint
+    ? t("sync.button")
+    : conflictCount > 0
+      ? t("sync.conflicts", { count: conflictCount })
+      : syncState.status === "offline"
+        ? t("sync.offlinePending", { count: pendingCount })
+        : syncState.status === "error"
+          ? t("sync.error")
+          : pendingCount > 0
+            ? t("sync.pending", { count: pendingCount })
+            : syncState.status === "syncing"
+              ? t("sync.syncing")
+              : t("sync.synced");
+
+  // Rappels : vérifiés toutes les 30 s sur tous les tableaux
+  useEffect(() => {
+    const check = () => {
+      const now = new Date();
+      const log = readReminderLog(dayKey(now));
+      const due = dueReminders(i18nRef.current.t, boardsRef.current, now, log);
+      if (due.length === 0) return;
+      for (const r of due) {
+        if (!log.fired.includes(r.key)) log.fired.push(r.key);
+        delete log.snoozed[r.key];
+        showReminderNotification(i18nRef.current.t, r);
+      }
+      writeReminderLog(log);
+      setAlerts((prev) => [...prev.filter((a) => !due.some((r) => r.key === a.key)), ...due]);
+    };
+    const first = window.setTimeout(check, 1000);
+    const id = window.setInterval(check, 30_000);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(id);
+    };
+  }, []);
+
+  function requestNotifications() {
+    if (typeof Notification === "undefined") return;
+    Notification.requestPermission().then(setNotifyPermission);
+  }
+
+  function dismissAlert(key: string) {
+    setAlerts((prev) => prev.filter((a) => a.key !== key));
+  }
+
+  function snoozeReminder(r: Reminder) {
+    const log = readReminderLog(dayKey());
+    log.snoozed[r.key] = Date.now() + SNOOZE_MINUTES * 60_000;
+    writeReminderLog(log);
+    dismissAlert(r.key);
+  }
+
+  // Rappel de section : toutes ses tâches prévues aujourd'hui
+  function completeReminder(r: Reminder) {
+    const now = Date.now();
+    setBoards(t(r.kind === "task" ? "undo.completeTask" : "undo.completeSection"), (prev) =>
+      prev.map((b) =>
+        b.id !== r.boardId
+          ? b
+          : {
+              ...b,
+              data: {
+                ...b.data,
+                tasks: b.data.tasks.map((task) =>
+                  !task.done &&
+                  (r.kind === "task"
+                    ? task.id === r.id
+                    : task.section === r.id && isScheduled(task, b.data.lastActiveDay))
+                    ? { ...task, done: true, updatedAt: now }
+                    : task
+                ),
+              },
+            }
+      ),
+      undefined,
+      r.boardId
+    );
+    dismissAlert(r.key);
+  }
+
+  // Actions choisies depuis une notification système (relayées par le service worker)
+  function handleReminderAction(action: string, r: Reminder) {
+    if (action === "done") completeReminder(r);
+    if (action === "snooze") snoozeReminder(r);
+  }
+
+  const reminderActionRef = useRef(handleReminderAction);
+  useEffect(() => {
+    reminderActionRef.current = handleReminderAction;
+  });
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const onMessage = (e: MessageEvent) => {
+      if (!isRecord(e.data) || e.data.type !== "REMINDER_ACTION") return;
+      const reminder = validateReminder(e.data.reminder);
+      if (reminder) reminderActionRef.current(String(e.data.action), reminder);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, []);
+
+  // Modifications venues d'un autre onglet : fusion tâche par tâche avec l'état local
+  useEffect(() => {
+    const channel = openSyncChannel((raw) => {
+      let workspace: Workspace;
+      try {
+        // un onglet plus récent peut diffuser un schéma inconnu : on l'ignore
+        const envelope = readEnvelope(raw);
+        workspace = validateWorkspace(migrate(envelope.version, envelope.data)).workspace;
+      } catch {
+        return;
+      }
+      const remote = workspace.boards;
+      const base = synced.current.boards;
+      synced.current = {
+        boards: remote,
+        json: JSON.stringify(remote),
+        language: workspace.language,
+      };
+      onLanguageChange(workspace.language);
+      setTimeline((prev) => rebaseTimeline(prev, mergeBoards(base, prev.present, remote)));
+    });
+    syncChannel.current = channel;
+    return () => {
+      channel.close();
+      syncChannel.current = null;
+    };
+  }, [onLanguageChange]);
+
+  // Le tableau et son filtre vivent dans l'URL : un tableau filtré se met en favori
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const params = new URLSearchParams({ board: board.id });
+    filterToSearch(filter).forEach((value, key) => params.set(key, value));
+    url.search = params.toString();
+    window.history.replaceState(null, "", url);
+  }, [filter, board.id]);
+
+  // Horloge des badges d'échéance
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // Fin d'un Pomodoro ou de la durée prévue : séance enregistrée, notification
+  function finishTimers() {
+    const at = Date.now();
+    const { finished } = finishDueTimers(boards, at);
+    if (finished.length === 0) return;
+    // Hors historique, comme le rollover ; les étapes d'annulation sont terminées aussi,
+    // sinon annuler ramènerait un minuteur déjà échu
+    const finish = (e: UndoEntry) => {
+      const next = finishDueTimers(e.boards, at).boards;
+      return next === e.boards ? e : { ...e, boards: next };
+    };
+    setTimeline((prev) => {
+      const next = finishDueTimers(prev.present, at).boards;
+      if (next === prev.present) return prev;
+      return { present: next, past: prev.past.map(finish), future: prev.future.map(finish) };
+    });
+    for (const f of finished) {
+      const title = t(f.pomodoro ? "timer.pomodoroDone" : "timer.plannedDone", {
+        title: f.task.title,
+      });
+      const body = f.task.done
+        ? t("timer.markedDone")
+        : f.pomodoro
+          ? t("timer.takeBreak", { minutes: BREAK_MINUTES })
+          : t("timer.stopped");
+      showTimerNotification(title, body, `${f.boardId}:timer:${f.task.id}`);
+      showToast(`${title} — ${body}`, false);
+    }
+  }
+
+  const finishTimersRef = useRef(finishTimers);
+  useEffect(() => {
+    finishTimersRef.current = finishTimers;
+  });
+
+  // Un minuteur tourne : le cadran avance chaque seconde
+  const timerRunning = boards.some((b) => b.data.tasks.some((task) => task.timer));
+  useEffect(() => {
+    if (!timerRunning) return;
+    const id = window.setInterval(() => {
+      setNow(Date.now());
+      finishTimersRef.current();
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [timerRunning]);
+
+  // Rollover quand la journée change (onglet resté ouvert ou réveil de veille)
+  useEffect(() => {
+    // Le changement de jour n'est pas annulable : on repart d'un historique vide
+    const check = () =>
+      setTimeline((prev) => {
+        const next = rolloverBoards(prev.present, dayKey());
+        return next === prev.present ? prev : { present: next, past: [], future: [] };
+      });
+    const id = window.setInterval(check, 60_000);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      window.clearInterval(id);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, []);
+
+  const viewRecord = viewDate ? history.find((h) => h.date === viewDate) : undefined;
+  const readOnly = !!viewRecord;
+  const shownDay = viewRecord?.date ?? today;
+  const boardTasks = viewRecord ? viewRecord.tasks : tasks;
+  const boardSections = viewRecord?.sections ?? sections;
+
+  const tagNames = useMemo(() => {
+    const set = new Set(data.tags.map((tag) => tag.name));
+    for (const task of boardTasks) for (const name of task.tags ?? []) set.add(name);
+    return Array.from(set).sort((a, b) => a.localeCompare(b));
+  }, [data.tags, boardTasks]);
+
+  const searchWords = useMemo(() => searchTerms(filter.query), [filter.query]);
+
+  // Des sections inconnues (vue venue d'un autre tableau) ne masquent aucune colonne
+  const shownSections = useMemo(() => {
+    const wanted = boardSections.filter((s) => filter.sections.includes(s.id));
+    return wanted.length > 0 ? wanted : boardSections;
+  }, [boardSections, filter.sections]);
+
+  const filteredTasks = useMemo(() => {
+    const shown = new Set(shownSections.map((s) => s.id));
+    return boardTasks
+      .filter((task) => shown.has(task.section) && matchesFilter(task, filter, searchWords))
+      .filter((task) => readOnly || showUnscheduled || isScheduled(task, today))
+      .sort(compareOrder);
+  }, [boardTasks, shownSections, filter, searchWords, readOnly, showUnscheduled, today]);
+
+  // Vues enregistrées : la vue active est celle dont le filtre correspond exactement
+  const views = data.settings.views;
+  const activeView = views.find((v) => sameFilter(v.filter, filter));
+
+  const quickPreview = useMemo(() => parseQuickAdd(quickText, sections), [quickText, sections]);
+
+  // Seules les cartes visibles restent sélectionnées (filtres, suppression, annulation, autre onglet)
+  const selection = useMemo(() => {
+    if (readOnly) return new Set<string>();
+    const visible = new Set(filteredTasks.map((task) => task.id));
+    return new Set(selectedIds.filter((id) => visible.has(id)));
+  }, [selectedIds, filteredTasks, readOnly]);
+
+  // Seules les tâches prévues ce jour-là comptent dans la progression
+  const countedTasks = useMemo(
+    () => filteredTasks.filter((task) => readOnly || isScheduled(task, today)),
+    [filteredTasks, readOnly, today]
+  );
+
+  const sectionStats = useMemo(() => {
+    const stats: Record<string, { done: number; total: number; pct: number; spent: number }> = {};
+    for (const s of boardSections) {
+      const list = countedTasks.filter((task) => task.section === s.id);
+      const total = list.length;
+      const done = list.filter((task) => task.done).length;
+      const score = list.reduce((sum, task) => sum + taskScore(task, progressMode), 0);
+      // le temps compte aussi pour une tâche chronométrée hors de ses jours prévus
+      const spent = filteredTasks
+        .filter((task) => task.section === s.id)
+        .reduce((sum, task) => sum + timeSpent(task, shownDay, now), 0);
+      stats[s.id] = { done, total, pct: pct(score, total), spent };
+    }
+    return stats;
+  }, [countedTasks, filteredTasks, boardSections, progressMode, shownDay, now]);
+
+  const globalProgress = useMemo(() => {
+    const total = countedTasks.length;
+    const score = countedTasks.reduce((sum, task) => sum + taskScore(task, progressMode), 0);
+    return pct(score, total);
+  }, [countedTasks, progressMode]);
+
+  // Historique + journée en cours, pour les statistiques
+  const statDays = useMemo(
+    () =>
+      archiveDay(
+        history,
+        today,
+        tasks.filter((task) => isScheduled(task, today)),
+        sections
+      ),
+    [history, today, tasks, sections]
+  );
+
+  const stats = useMemo(() => {
+    if (!statsOpen) return null;
+    const bySection = completionRates(statDays, today, statsRange, (task) => [task.section]);
+    const byTag = completionRates(statDays, today, statsRange, (task) =>
+      task.tags?.length ? task.tags : [""]
+    );
+    const sectionRows: RateRow[] = [...bySection].map(([id, r]) => ({
+      label: sectionName(sections, id),
+      color: sections.find((s) => s.id === id)?.color,
+      ...r,
+    }));
+    const tagRows: RateRow[] = [...byTag]
+      .map(([name, r]) => ({
+        label: name || t("stats.untagged"),
+        color: name ? data.tags.find((tag) => sameTag(tag.name, name))?.color : undefined,
+        ...r,
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    const daily = new Map(statDays.map((r) => [r.date, dayProgress(r, progressMode)]));
+    const streaks = tasks
+      .map((task) => ({ task, ...taskStreaks(task, statDays, today) }))
+      .sort((a, b) => b.current - a.current || b.best - a.best);
+    return { sectionRows, tagRows, daily, streaks };
+  }, [statsOpen, statDays, today, statsRange, sections, tasks, progressMode, data.tags, t]);
+
+  function openCreate() {
+    setEditingId(null);
+    setFormTitle("");
+    setFormSection(sections[0].id);
+    setFormTags("");
+    setFormNotes([]);
+    setFormNoteDraft("");
+    setEditingNoteId(null);
+    setFormRecurrence({ kind: "daily" });
+    setFormReminder("");
+    setFormPriority("");
+    setFormDueDate("");
+    setFormDueTime("");
+    setFormPlanned("");
+    setFormAutoDone(false);
+    setFormSubtasks([]);
+    setFormSubtaskDraft("");
+    setModalOpen(true);
+  }
+
+  function openEdit(task: Task) {
+    setEditingId(task.id);
+    setFormTitle(task.title);
+    setFormSection(task.section);
+    setFormTags((task.tags ?? []).join(", "));
+    setFormNotes(task.notes ?? []);
+    setFormNoteDraft("");
+    setEditingNoteId(null);
+    setFormRecurrence(task.recurrence ?? { kind: "daily" });
+    setFormReminder(task.reminder ?? "");
+    setFormPriority(task.priority ?? "");
+    setFormDueDate(task.due?.split("T")[0] ?? "");
+    setFormDueTime(task.due?.split("T")[1] ?? "");
+    setFormPlanned(task.planned ? String(task.planned) : "");
+    setFormAutoDone(task.autoDone === true);
+    setFormSubtasks(task.subtasks ?? []);
+    setFormSubtaskDraft("");
+    setModalOpen(true);
+  }
+
+  function closeModal() {
+    setModalOpen(false);
+    setEditingId(null);
+  }
+
+  function submitForm() {
+    const title = clampStr(formTitle);
+    if (!title) return;
+
+    const parsedTags = parseTags(formTags);
+    const tags = parsedTags.length > 0 ? parsedTags : undefined;
+    // une note encore en cours de saisie est ajoutée au fil plutôt que perdue
+    const noteList = formNoteDraft.trim()
+      ? [...formNotes, { id: uid(), text: formNoteDraft.trim(), createdAt: Date.now() }]
+      : formNotes;
+    const keptNotes = noteList
+      .map((n) => ({ ...n, text: n.text.trim() }))
+      .filter((n) => n.text);
+    const notes = keptNotes.length > 0 ? keptNotes : undefined;
+    const recurrence = formRecurrence.kind === "daily" ? undefined : formRecurrence;
+    // un élément encore dans le champ de saisie est ajouté plutôt que perdu
+    const subtaskList = clampStr(formSubtaskDraft)
+      ? [...formSubtasks, { id: uid(), title: formSubtaskDraft, done: false }]
+      : formSubtasks;
+    const cleaned = subtaskList
+      .map((st) => ({ ...st, title: clampStr(st.title) }))
+      .filter((st) => st.title);
+    const subtasks = cleaned.length > 0 ? cleaned : undefined;
+    const due = !formDueDate ? undefined : formDueTime ? `${formDueDate}T${formDueTime}` : formDueDate;
+    const plannedMinutes = Math.floor(Number(formPlanned));
+    const planned = plannedMinutes > 0 ? plannedMinutes : undefined;
+    const autoDone = planned && formAutoDone ? true : undefined;
+
+    if (editingId) {
+      setTasks(t("undo.editTask"), (prev) =>
+        prev.map((task) =>
+          task.id === editingId
+            ? {
+                ...task,
+                title,
+                section: formSection,
+                tags,
+                notes,
+                recurrence,
+                subtasks,
+                reminder: formReminder || undefined,
+                priority: formPriority || undefined,
+                due,
+                planned,
+                autoDone,
+              }
+            : task
+        )
+      );
+    } else {
+      const nextOrder =
+        tasks
+          .filter((x) => x.section === formSection)
+          .reduce((m, x) => Math.max(m, x.order ?? -1), -1) + 1;
+
+      const newTask: Task = {
+        id: uid(),
+        title,
+        section: formSection,
+        tags,
+        done: false,
+        notes,
+        createdAt: Date.now(),
+        order: nextOrder,
+        recurrence,
+        subtasks,
+        reminder: formReminder || undefined,
+        priority: formPriority || undefined,
+        due,
+        planned,
+        autoDone,
+      };
+
+      setTasks(t("undo.createTask"), (prev) => [newTask, ...prev]);
+    }
+
+    closeModal();
+  }
+
+  // Une tâche par ligne, le tout en une seule étape d'annulation
+  function submitQuickAdd() {
+    if (quickPreview.length === 0) return;
+    const created = quickTasks(tasks, quickPreview);
+    setTasks(t("undo.quickAdd", { count: created.length }), (prev) => [...created, ...prev]);
+    setQuickText("");
+  }
+
+  function toggleDone(id: string) {
+    setTasks(t("undo.toggleTask"), (prev) =>
+      prev.map((task) => (task.id === id ? { ...task, done: !task.done } : task))
+    );
+  }
+
+  // Un seul minuteur à la fois : en démarrer un arrête celui qui tournait
+  function toggleTimer(id: string, pomodoro = false) {
+    const at = Date.now();
+    const running = !!tasks.find((task) => task.id === id)?.timer;
+    setTasks(t(running ? "undo.stopTimer" : "undo.startTimer"), (prev) =>
+      prev.map((task) => {
+        if (task.id === id) {
+          return task.timer ? stopTimer(task, today, at) : startTimer(task, pomodoro, today, at);
+        }
+        return task.timer && !running ? stopTimer(task, today, at) : task;
+      })
+    );
+  }
+
+  // La tâche se coche d'elle-même quand la checklist devient complète, et se décoche quand
+  // elle cesse de l'être ; sinon la case cochée à la main est laissée telle quelle
+  function toggleSubtask(taskId: string, subtaskId: string) {
+    setTasks(t("undo.toggleChecklistItem"), (prev) =>
+      prev.map((task) => {
+        if (task.id !== taskId || !task.subtasks) return task;
+        const wasComplete = task.subtasks.every((st) => st.done);
+        const subtasks = task.subtasks.map((st) =>
+          st.id === subtaskId ? { ...st, done: !st.done } : st
+        );
+        const complete = subtasks.every((st) => st.done);
+        return { ...task, subtasks, done: complete === wasComplete ? task.done : complete };
+      })
+    );
+  }
+
+  function setTagColor(name: string, color: string) {
+    setData(
+      t("undo.recolorTag"),
+      (prev) => ({
+        ...prev,
+        tags: prev.tags.map((tag) => (tag.name === name ? { ...tag, color } : tag)),
+      }),
+      `tag:${name}:color`
+    );
+  }
+
+  // Renommer vers un tag existant revient à fusionner les deux
+  function renameTag(from: string, to: string) {
+    const typed = clampStr(to);
+    if (!typed || typed === from) return;
+    // "study" → "Study" reste un renommage ; vers un autre tag existant, on garde son nom
+    const target = data.tags.find((tag) => sameTag(tag.name, typed) && !sameTag(tag.name, from));
+    const name = target?.name ?? typed;
+    if (target && !confirm(t("confirm.mergeTags", { from, to: name }))) return;
+    const rename = (tags: string[]) => tags.map((x) => (sameTag(x, from) ? name : x));
+    setData(t(target ? "undo.mergeTags" : "undo.renameTag"), (prev) => ({
+      ...prev,
+      ...retag(prev, rename),
+      tags: target
+        ? prev.tags.filter((tag) => tag.name !== from)
+        : prev.tags.map((tag) => (tag.name === from ? { ...tag, name } : tag)),
+    }));
+    setFilter((prev) => ({ ...prev, tags: parseTags(rename(prev.tags).join(",")) }));
+  }
+
+  function deleteTag(name: string) {
+    if (!confirm(t("confirm.deleteTag", { name }))) return;
+    setData(t("undo.deleteTag"), (prev) => ({
+      ...prev,
+      ...retag(prev, (tags) => tags.filter((x) => !sameTag(x, name))),
+      tags: prev.tags.filter((tag) => tag.name !== name),
+    }));
+    setFilter((prev) => ({ ...prev, tags: prev.tags.filter((x) => !sameTag(x, name)) }));
+  }
+
+  function updateFilter(patch: Partial<BoardFilter>) {
+    setFilter((prev) => ({ ...prev, ...patch }));
+  }
+
+  // Une vue du même nom est mise à jour plutôt que dupliquée
+  function saveView() {
+    const name = clampStr(viewName);
+    if (!name) return;
+    const existing = views.find((v) => v.name.toLowerCase() === name.toLowerCase());
+    setData(t("undo.saveView"), (prev) => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        views: existing
+          ? prev.settings.views.map((v) => (v.id === existing.id ? { ...v, filter } : v))
+          : [...prev.settings.views, { id: uid(), name, filter }],
+      },
+    }));
+    setViewName("");
+  }
+
+  function deleteView(id: string) {
+    setData(t("undo.deleteView"), (prev) => ({
+      ...prev,
+      settings: { ...prev.settings, views: prev.settings.views.filter((v) => v.id !== id) },
+    }));
+  }
+
+  function setProgressMode(mode: ProgressMode) {
+    setData(t("undo.changeProgressMode"), (prev) => ({
+      ...prev,
+      settings: { ...prev.settings, progressMode: mode },
+    }));
+  }
+
+  function removeTask(id: string) {
+    setTasks(t("undo.deleteTask"), (prev) => prev.filter((task) => task.id !== id));
+    showToast(t("toast.taskDeleted"));
+  }
+
+  function clearAll() {
+    if (!confirm(t("confirm.clearAll"))) return;
+    setTasks(t("undo.clearBoard"), []);
+    showToast(t("toast.allDeleted"));
+  }
+
+  function resetAllToIncomplete() {
+    if (!confirm(t("confirm.reset"))) return;
+    setData(t("undo.resetProgress"), (prev) => ({
+      ...prev,
+      tasks: prev.tasks.map(resetTask),
+      history: archiveDay(
+        prev.history,
+        prev.lastActiveDay,
+        prev.tasks.filter((task) => isScheduled(task, prev.lastActiveDay)),
+        prev.sections
+      ),
+    }));
+  }
+
+  // Sélection multiple
+  function visibleCardIds() {
+    return shownSections.flatMap((s) => columnTasks(filteredTasks, s.id).map((task) => task.id));
+  }
+
+  // "toggle" ajoute ou retire une carte ; "range" prend tout l'intervalle depuis l'ancre
+  function selectCard(id: string, mode: "toggle" | "range", anchor = selectionAnchor) {
+    const ids = visibleCardIds();
+    const from = anchor ? ids.indexOf(anchor) : -1;
+    if (mode === "range" && from !== -1) {
+      const to = ids.indexOf(id);
+      setSelectedIds(ids.slice(Math.min(from, to), Math.max(from, to) + 1));
+      setSelectionAnchor(anchor);
+      return;
+    }
+    setSelectedIds(selection.has(id) ? [...selection].filter((x) => x !== id) : [...selection, id]);
+    setSelectionAnchor(id);
+  }
+
+  function clearSelection() {
+    setSelectedIds([]);
+    setSelectionAnchor(null);
+  }
+
+  // Ctrl/Cmd-clic : une carte de plus ou de moins ; Maj-clic : intervalle ; clic simple : on vide
+  function onCardClick(id: string, e: React.MouseEvent<HTMLDivElement>) {
+    if ((e.target as HTMLElement).closest("button, input, select, textarea, a, label")) return;
+    if (e.shiftKey) {
+      window.getSelection()?.removeAllRanges();
+      selectCard(id, "range");
+    } else if (e.ctrlKey || e.metaKey) selectCard(id, "toggle");
+    else if (selection.size > 0) clearSelection();
+  }
+
+  // Chaque action groupée est une seule étape d'annulation
+  function bulkSetDone(done: boolean) {
+    setTasks(t(done ? "undo.bulkDone" : "undo.bulkUndone", { count: selection.size }), (prev) =>
+      prev.map((task) => (selection.has(task.id) && task.done !== done ? { ...task, done } : task))
+    );
+  }
+
+  function bulkMove(section: string) {
+    setTasks(t("undo.bulkMove", { count: selection.size }), (prev) =>
+      moveTasks(prev, selection, section)
+    );
+  }
+
+  // "add" complète les tags de chaque carte, "replace" les remplace (vide : les retire)
+  function bulkSetTags(mode: "add" | "replace") {
+    const names = parseTags(bulkTags);
+    if (mode === "add" && names.length === 0) return;
+    setTasks(t("undo.bulkTags", { count: selection.size }), (prev) =>
+      prev.map((task) => {
+        if (!selection.has(task.id)) return task;
+        const tags = mode === "add" ? parseTags([...(task.tags ?? []), ...names].join(",")) : names;
+        return { ...task, tags: tags.length > 0 ? tags : undefined };
+      })
+    );
+    setBulkTags("");
+  }
+
+  function bulkDuplicate() {
+    setTasks(t("undo.bulkDuplicate", { count: selection.size }), (prev) =>
+      duplicateTasks(prev, selection)
+    );
+  }
+
+  function bulkDelete() {
+    const count = selection.size;
+    setTasks(t("undo.bulkDelete", { count }), (prev) =>
+      prev.filter((task) => !selection.has(task.id))
+    );
+    clearSelection();
+    showToast(t("toast.tasksDeleted", { count }));
+  }
+
+  // Boards
+  function switchBoard(id: string) {
+    setActiveBoardId(id);
+    setViewDate("");
+    clearSelection();
+    setFilter(EMPTY_FILTER);
+    setTemplateSelection([]);
+  }
+
+  function addBoard() {
+    const id = uid();
+    setBoards(t("undo.addBoard"), (prev) => [
+      ...prev,
+      { id, name: t("board.newName"), data: emptyBoardData() },
+    ]);
+    switchBoard(id);
+  }
+
+  // La copie garde la structure et les tâches, mais repart sans historique
+  function duplicateBoard(id: string) {
+    const source = boards.find((b) => b.id === id);
+    if (!source) return;
+    const now = Date.now();
+    const copy: Board = {
+      id: uid(),
+      name: t("board.copyName", { name: source.name }),
+      data: {
+        ...source.data,
+        tasks: source.data.tasks.map((task) => copyTask(task, now)),
+        history: [],
+        lastActiveDay: dayKey(),
+      },
+    };
+    setBoards(t("undo.duplicateBoard"), (prev) => [...prev, copy]);
+    switchBoard(copy.id);
+  }
+
+  function renameBoard(id: string, name: string) {
+    setBoards(
+      t("undo.renameBoard"),
+      (prev) => prev.map((b) => (b.id === id ? { ...b, name } : b)),
+      `board:${id}:name`
+    );
+  }
+
+  function deleteBoard(id: string) {
+    if (boards.length <= 1) return;
+    const target = boards.find((b) => b.id === id);
+    if (!target || !confirm(t("confirm.deleteBoard", { name: target.name }))) return;
+    setBoards(t("undo.deleteBoard"), (prev) => prev.filter((b) => b.id !== id));
+    if (id === board.id) switchBoard(boards.find((b) => b.id !== id)?.id ?? "");
+    showToast(t("toast.boardDeleted"));
+  }
+
+  // Templates
+  function applyTemplateToBoard(template: Template) {
+    const count = templatePlan(data, template).toAdd.length;
+    if (count === 0) return;
+    setData(t("undo.applyTemplate"), (prev) => applyTemplate(prev, template));
+    showToast(t("toast.templateApplied", { count, name: template.name }));
+  }
+
+  function saveTemplate() {
+    const name = clampStr(templateName);
+    const selected = tasks.filter((task) => templateSelection.includes(task.id));
+    if (!name || selected.length === 0) return;
+    const template = templateFromTasks(name, selected, sections);
+    void updateTemplates((prev) => [...prev, template]);
+    setTemplateName("");
+    setTemplateSelection([]);
+  }
+
+  function deleteTemplate(id: string) {
+    const template = templates.find((tpl) => tpl.id === id);
+    if (!template || !confirm(t("confirm.deleteTemplate", { name: template.name }))) return;
+    void updateTemplates((prev) => prev.filter((tpl) => tpl.id !== id));
+  }
+
+  // Les modèles sont relus avant chaque écriture : un autre onglet a pu en enregistrer entre-temps
+  async function updateTemplates(update: (prev: Template[]) => Template[]) {
+    const next = update(await loadTemplates(storage));
+    setTemplates(next);
+    await storage.setItem(TEMPLATES_KEY, JSON.stringify(next)).catch(() => {
+      // ignore
+    });
+  }
+
+  function openTemplates() {
+    setTemplatesOpen(true);
+    loadTemplates(storage).then(setTemplates);
+  }
+
+  function setSections(label: string, next: (prev: Section[]) => Section[], mergeKey?: string) {
+    setData(label, (prev) => ({ ...prev, sections: next(prev.sections) }), mergeKey);
+  }
+
+  function addSection() {
+    setSections(t("undo.addSection"), (prev) => [
+      ...prev,
+      { id: uid(), name: t("section.newName"), color: "#64748b" },
+    ]);
+  }
+
+  function updateSection(id: string, patch: Partial<Omit<Section, "id">>) {
+    setSections(
+      t("undo.editSection"),
+      (prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)),
+      `section:${id}:${Object.keys(patch).join()}`
+    );
+  }
+
+  function moveSection(id: string, delta: -1 | 1) {
+    setSections(t("undo.moveSection"), (prev) => {
+      const i = prev.findIndex((s) => s.id === id);
+      const j = i + delta;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      return arrayMove(prev, i, j);
+    });
+  }
+
+  function startDeleteSection(id: string) {
+    const hasTasks = tasks.some((task) => task.section === id);
+    if (!hasTasks) {
+      if (!confirm(t("confirm.deleteSection", { name: sectionName(sections, id) }))) return;
+      deleteSection(id, null);
+      return;
+    }
+    setDeletingSectionId(id);
+    setDeleteTargetId(sections.find((s) => s.id !== id)?.id ?? "");
+  }
+
+  // Les tâches de la section supprimée passent à la fin de la section cible
+  function deleteSection(id: string, targetId: string | null) {
+    setData(t("undo.deleteSection"), (prev) => {
+      const base =
+        prev.tasks
+          .filter((task) => task.section === targetId)
+          .reduce((m, task) => Math.max(m, task.order ?? -1), -1) + 1;
+      const moving = prev.tasks
+        .filter((task) => task.section === id)
+        .sort((a, b) => (a.order ?? 999999) - (b.order ?? 999999));
+      const newOrder = new Map(moving.map((task, idx) => [task.id, base + idx]));
+      return {
+        ...prev,
+        sections: prev.sections.filter((s) => s.id !== id),
+        tasks: targetId
+          ? prev.tasks.map((task) =>
+              task.section === id
+                ? { ...task, section: targetId, order: newOrder.get(task.id) }
+                : task
+            )
+          : prev.tasks.filter((task) => task.section !== id),
+      };
+    });
+    setDeletingSectionId(null);
+    showToast(t("toast.sectionDeleted"));
+  }
+
+  // Liste d'une colonne telle qu'affichée, carte en cours de drag comprise
+  function columnTasks(source: Task[], sectionId: string) {
+    const sort = boardSections.find((s) => s.id === sectionId)?.sort;
+    const list = manualColumn(source, sectionId);
+    return sort && sort !== "manual" ? [...list].sort(compareTasks(sort)) : list;
+  }
+
+  function manualColumn(source: Task[], sectionId: string) {
+    if (!dragOverride) return source.filter((task) => task.section === sectionId);
+    const list = source.filter((task) => task.section === sectionId && task.id !== dragOverride.id);
+    if (dragOverride.section !== sectionId) return list;
+    const moving = source.find((task) => task.id === dragOverride.id);
+    return moving ? insertBefore(list, moving, dragOverride.beforeId) : list;
+  }
+
+  function setSectionSort(id: string, sort: SectionSort) {
+    setSections(t("undo.sortSection"), (prev) =>
+      prev.map((s) => (s.id === id ? { ...s, sort: sort === "manual" ? undefined : sort } : s))
+    );
+  }
+
+  function overSection(overId: string) {
+    if (overId.startsWith(COLUMN_PREFIX)) return overId.slice(COLUMN_PREFIX.length);
+    if (overId === dragOverride?.id) return dragOverride.section;
+    return tasks.find((task) => task.id === overId)?.section;
+  }
+
+  function taskTitle(id: string | number) {
+    return `"${tasks.find((task) => task.id === String(id))?.title ?? t("drag.taskFallback")}"`;
+  }
+
+  function describeOver(overId: string) {
+    const section = overSection(overId);
+    const name = section ? sectionName(sections, section) : t("drag.theBoard");
+    if (overId.startsWith(COLUMN_PREFIX)) return t("drag.into", { section: name });
+    const list = section ? columnTasks(filteredTasks, section) : [];
+    const pos = list.findIndex((task) => task.id === overId);
+    return t("drag.position", { section: name, position: pos + 1, total: list.length });
+  }
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) =>
+      t("drag.start", { task: taskTitle(active.id), where: describeOver(String(active.id)) }),
+    onDragOver: ({ active, over }) =>
+      over
+        ? t("drag.over", { task: taskTitle(active.id), where: describeOver(String(over.id)) })
+        : t("drag.notOver", { task: taskTitle(active.id) }),
+    onDragEnd: ({ active, over }) =>
+      over
+        ? t("drag.end", { task: taskTitle(active.id), where: describeOver(String(over.id)) })
+        : t("drag.outside", { task: taskTitle(active.id) }),
+    onDragCancel: ({ active }) => t("drag.cancel", { task: taskTitle(active.id) }),
+  };
+
+  // Flèches : haut/bas entre les cartes d'une colonne, gauche/droite entre colonnes ;
+  // Entrée ouvre l'édition. Seulement quand la carte (ou la colonne) elle-même a le focus.
+  // Sélection : Espace, Maj+haut/bas, Ctrl+A, Échap pour vider, Suppr pour supprimer.
+  function onBoardKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    if (activeDragId) return;
+    const el = e.target as HTMLElement;
+    const card = el.dataset.cardId ? el : null;
+    const column = card
+      ? card.closest<HTMLElement>("[data-column-id]")
+      : el.dataset.columnId
+        ? el
+        : null;
+    if (!column) return;
+
+    const cardId = card?.dataset.cardId;
+    if (!readOnly) {
+      let handled = true;
+      if (e.key === " " && cardId) selectCard(cardId, "toggle");
+      else if (e.key === "Escape" && selection.size > 0) clearSelection();
+      else if (e.key === "Delete" && selection.size > 0) bulkDelete();
+      else if (e.key.toLowerCase() === "a" && (e.ctrlKey || e.metaKey)) {
+        setSelectedIds(visibleCardIds());
+      } else handled = false;
+      if (handled) {
+        e.preventDefault();
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && card && !readOnly) {
+      const task = tasks.find((task) => task.id === cardId);
+      if (task) {
+        e.preventDefault();
+        openEdit(task);
+      }
+      return;
+    }
+
+    const columns = Array.from(e.currentTarget.querySelectorAll<HTMLElement>("[data-column-id]"));
+    const cardsOf = (c: HTMLElement) =>
+      Array.from(c.querySelectorAll<HTMLElement>("[data-card-id]"));
+    const cards = cardsOf(column);
+    const idx = card ? cards.indexOf(card) : -1;
+    let target: HTMLElement | undefined;
+
+    if (e.key === "ArrowUp") target = idx > 0 ? cards[idx - 1] : column;
+    else if (e.key === "ArrowDown") target = cards[idx + 1];
+    else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const next = columns[columns.indexOf(column) + (e.key === "ArrowLeft" ? -1 : 1)];
+      if (next) {
+        const nextCards = cardsOf(next);
+        target = nextCards[Math.min(Math.max(idx, 0), nextCards.length - 1)] ?? next;
+      }
+    } else return;
+
+    e.preventDefault();
+    target?.focus();
+    // Maj+haut/bas étend la sélection depuis la carte de départ
+    const targetId = target?.dataset.cardId;
+    const vertical = e.key === "ArrowUp" || e.key === "ArrowDown";
+    if (e.shiftKey && vertical && cardId && targetId && !readOnly) {
+      selectCard(targetId, "range", selection.size > 0 && selectionAnchor ? selectionAnchor : cardId);
+    }
+  }
+
+  function onDragStart(event: DragStartEvent) {
+    setActiveDragId(String(event.active.id));
+  }
+
+  function onDragOver(event: DragOverEvent) {
+    const { active, over } = event;
+    if (!over) return;
+
+    const activeId = String(active.id);
+    const overId = String(over.id);
+    const activeTask = tasks.find((task) => task.id === activeId);
+    const target = overSection(overId);
+    if (!activeTask || !target) return;
+
+    const current = dragOverride?.section ?? activeTask.section;
+    if (target === current) return;
+
+    if (target === activeTask.section) {
+      setDragOverride(null);
+    } else {
+      setDragOverride({
+        id: activeId,
+        section: target,
+        beforeId: overId.startsWith(COLUMN_PREFIX) ? null : overId,
+      });
+    }
+  }
+
+  function onDragCancel() {
+    setActiveDragId(null);
+    setDragOverride(null);
+  }
+
+  function exportJson() {
+    const envelope: StoredEnvelope = {
+      version: SCHEMA_VERSION,
+      data: { boards: [board], activeBoardId: board.id, language },
+      quarantine,
+    };
+    downloadFile(
+      `journey-board-${dayKey()}.json`,
+      JSON.stringify(envelope, null, 2),
+      "application/json"
+    );
+  }
+
+  function exportCsv() {
+    downloadFile(`journey-tasks-${dayKey()}.csv`, tasksToCsv(tasks, sections), "text/csv");
+  }
+
+  async function pickImportFile(file: File) {
+    const text = await file.text();
+    const isCsv = file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv";
+    setImportPreview(
+      isCsv
+        ? parseCsvImport(t, text, file.name, sections)
+        : parseJsonImport(t, text, file.name, sections)
+    );
+    setImportMode("merge");
+  }
+
+  function applyImport() {
+    const preview = importPreview;
+    if (!preview) return;
+    if (importMode === "replace" && !confirm(t("confirm.replaceImport"))) {
+      return;
+    }
+
+    setData(t("undo.import"), (prev) => {
+      if (importMode === "replace") {
+        return {
+          ...prev,
+          sections:
+            preview.format === "json" ? preview.sections : [...prev.sections, ...preview.newSections],
+          tasks: preview.tasks,
+          history: preview.format === "json" ? preview.history : prev.history,
+          tags: ensureTags(
+            [
+              ...preview.tags,
+              ...prev.tags.filter((tag) => !preview.tags.some((x) => sameTag(x.name, tag.name))),
+            ],
+            preview.tasks.flatMap((task) => task.tags ?? [])
+          ),
+        };
+      }
+
+      // Fusion par id ; la révision serveur locale est gardée pour la synchro
+      const imported = new Map(preview.tasks.map((task) => [task.id, task]));
+      const existingIds = new Set(prev.tasks.map((task) => task.id));
+      const knownDates = new Set(prev.history.map((h) => h.date));
+      return {
+        ...prev,
+        sections: [...prev.sections, ...preview.newSections],
+        tags: ensureTags(
+          [
+            ...prev.tags,
+            ...preview.tags.filter((tag) => !prev.tags.some((x) => sameTag(x.name, tag.name))),
+          ],
+          preview.tasks.flatMap((task) => task.tags ?? [])
+        ),
+        tasks: [
+          ...prev.tasks.map((task) => {
+            const row = imported.get(task.id);
+            if (!row) return task;
+            return preview.format === "csv"
+              ? mergeCsvTask(task, row, preview.columns)
+              : { ...row, rev: task.rev };
+          }),
+          ...preview.tasks.filter((task) => !existingIds.has(task.id)),
+        ],
+        history: [...prev.history, ...preview.history.filter((h) => !knownDates.has(h.date))].sort(
+          (a, b) => b.date.localeCompare(a.date)
+        ),
+      };
+    });
+    setImportPreview(null);
+    setDataOpen(false);
+    showToast(t("toast.imported", { count: preview.tasks.length }));
+  }
+
+  function onDragEnd(event: DragEndEvent) {
+    const { active, over } = event;
+    const override = dragOverride;
+    setActiveDragId(null);
+    setDragOverride(null);
+    if (!over) return;
+
+    const activeId = String(active.id);
+    const overId = String(over.id);
+
+    const activeTask = tasks.find((task) => task.id === activeId);
+    if (!activeTask) return;
+
+    const source = activeTask.section;
+    const target = override?.section ?? source;
+
+    // Colonne triée automatiquement : seul le changement de section compte
+    if ((sections.find((s) => s.id === target)?.sort ?? "manual") !== "manual") {
+      if (target === source) return;
+      const end =
+        tasks
+          .filter((task) => task.section === target)
+          .reduce((m, task) => Math.max(m, task.order ?? -1), -1) + 1;
+      setTasks(t("undo.moveTask"), (prev) =>
+        prev.map((task) => (task.id === activeId ? { ...task, section: target, order: end } : task))
+      );
+      return;
+    }
+
+    // Ordre complet (filtres ignorés) de la colonne cible, carte déplacée à sa place provisoire
+    const others = tasks
+      .filter((task) => task.section === target && task.id !== activeId)
+      .sort(compareOrder);
+    const placed =
+      target === source
+        ? tasks.filter((task) => task.section === target).sort(compareOrder)
+        : insertBefore(others, activeTask, override?.beforeId ?? null);
+
+    const oldIndex = placed.findIndex((task) => task.id === activeId);
+    const overIndex = placed.findIndex((task) => task.id === overId);
+    const newIndex = overIndex === -1 ? oldIndex : overIndex;
+    if (target === source && oldIndex === newIndex) return;
+
+    const orderMap = new Map<string, number>();
+    arrayMove(placed, oldIndex, newIndex).forEach((task, idx) => orderMap.set(task.id, idx));
+    if (target !== source) {
+      tasks
+        .filter((task) => task.section === source && task.id !== activeId)
+        .sort(compareOrder)
+        .forEach((task, idx) => orderMap.set(task.id, idx));
+    }
+
+    setTasks(t("undo.moveTask"), (prev) =>
+      prev.map((task) => {
+        if (task.id === activeId) {
+          return { ...task, section: target, order: orderMap.get(task.id) ?? 0 };
+        }
+        return orderMap.has(task.id) ? { ...task, order: orderMap.get(task.id) } : task;
+      })
+    );
+  }
+
+  return (
+    <div
+      style={{
+        padding: 18,
+        fontFamily:
+          'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, "Helvetica Neue", Arial',
+        color: COLOR.text,
+        background: COLOR.page,
+        minHeight: "100vh",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          padding: "0 24px",
+          display: "flex",
+          flexDirection: "column",
+          gap: SPACE.xl,
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            background: COLOR.surface,
+            borderRadius: RADIUS.xl,
+            padding: SPACE.xxl,
+            boxShadow: `0 8px 22px ${COLOR.shadow}`,
+            border: `1px solid ${COLOR.accent}`,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: SPACE.xxl,
+            flexWrap: "wrap",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: SPACE.xl }}>
+            <div>
+              <div style={{ fontSize: 22, fontWeight: 900 }}>Journey Task Board</div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>
+                {t("header.subtitle", { sections: sections.map((s) => s.name).join(" / ") })}
+              </div>
+            </div>
+            <div style={{ color: COLOR.textMuted }}>
+              <ProgressRing value={globalProgress} />
+            </div>
+          </div>
+
+          <div style={{ display: "flex", alignItems: "center", gap: SPACE.md, flexWrap: "wrap" }}>
+            <select
+              value={board.id}
+              onChange={(e) => switchBoard(e.target.value)}
+              title={t("header.switchBoard")}
+              style={{
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+                fontWeight: 700,
+              }}
+            >
+              {boards.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => setBoardsOpen(true)}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.boards")}
+            </button>
+
+            <select
+              value={viewDate}
+              onChange={(e) => setViewDate(e.target.value)}
+              title={t("header.browseDays")}
+              style={{
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+              }}
+            >
+              <option value="">{t("header.today")}</option>
+              {history.map((h) => (
+                <option key={h.date} value={h.date}>
+                  {formatDay(language, h.date)}
+                </option>
+              ))}
+            </select>
+
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => updateFilter({ query: e.target.value })}
+              placeholder={t("filter.searchPlaceholder")}
+              aria-label={t("filter.search")}
+              style={{
+                width: 180,
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+              }}
+            />
+
+            {views.length > 0 ? (
+              <select
+                value={activeView?.id ?? ""}
+                onChange={(e) =>
+                  setFilter(views.find((v) => v.id === e.target.value)?.filter ?? EMPTY_FILTER)
+                }
+                title={t("views.title")}
+                aria-label={t("views.title")}
+                style={{
+                  padding: PAD.field,
+                  borderRadius: RADIUS.md,
+                  border: `1px solid ${COLOR.borderField}`,
+                  background: COLOR.surface,
+                  fontWeight: 700,
+                }}
+              >
+                <option value="">
+                  {activeCriteria(filter) > 0 ? t("views.custom") : t("views.all")}
+                </option>
+                {views.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            <details style={{ position: "relative" }}>
+              <summary
+                style={{
+                  listStyle: "none",
+                  padding: PAD.field,
+                  borderRadius: RADIUS.md,
+                  border: `1px solid ${COLOR.borderField}`,
+                  background: COLOR.surface,
+                  cursor: "pointer",
+                  fontSize: 13,
+                }}
+              >
+                {activeCriteria({ ...filter, query: "" }) > 0
+                  ? t("filter.summaryActive", { count: activeCriteria({ ...filter, query: "" }) })
+                  : t("filter.summary")}
+              </summary>
+              <div
+                style={{
+                  position: "absolute",
+                  top: "calc(100% + 6px)",
+                  left: 0,
+                  zIndex: 20,
+                  minWidth: 240,
+                  maxHeight: "70vh",
+                  overflowY: "auto",
+                  background: COLOR.surface,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.border}`,
+                  boxShadow: `0 16px 40px ${COLOR.shadowStrong}`,
+                  padding: SPACE.md,
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: SPACE.xs,
+                  fontSize: 13,
+                }}
+              >
+                <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.7, marginTop: SPACE.xxs }}>
+                  {t("filter.status")}
+                </div>
+                <div style={{ display: "flex", gap: SPACE.md }}>
+                  {(["all", "todo", "done"] as const).map((status) => (
+                    <label
+                      key={status}
+                      style={{ display: "flex", alignItems: "center", gap: SPACE.xxs }}
+                    >
+                      <input
+                        type="radio"
+                        checked={filter.status === status}
+                        onChange={() => updateFilter({ status })}
+                      />
+                      {t(`filter.status.${status}`)}
+                    </label>
+                  ))}
+                </div>
+
+                <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.7, marginTop: SPACE.xxs }}>
+                  {t("filter.sections")}
+                </div>
+                {boardSections.map((s) => (
+                  <label
+                    key={s.id}
+                    style={{ display: "flex", alignItems: "center", gap: SPACE.xs }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={filter.sections.includes(s.id)}
+                      onChange={(e) =>
+                        updateFilter({
+                          sections: e.target.checked
+                            ? [...filter.sections, s.id]
+                            : filter.sections.filter((x) => x !== s.id),
+                        })
+                      }
+                    />
+                    <span
+                      style={{
+                        width: 10,
+                        height: 10,
+                        borderRadius: RADIUS.pill,
+                        background: s.color,
+                      }}
+                    />
+                    {s.name}
+                  </label>
+                ))}
+
+                <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.7, marginTop: SPACE.xxs }}>
+                  {t("field.tags")}
+                </div>
+                <div style={{ display: "flex", gap: SPACE.md }}>
+                  <label style={{ display: "flex", alignItems: "center", gap: SPACE.xxs }}>
+                    <input
+                      type="radio"
+                      checked={filter.tagMatch === "any"}
+                      onChange={() => updateFilter({ tagMatch: "any" })}
+                    />
+                    {t("tags.any")}
+                  </label>
+                  <label style={{ display: "flex", alignItems: "center", gap: SPACE.xxs }}>
+                    <input
+                      type="radio"
+                      checked={filter.tagMatch === "all"}
+                      onChange={() => updateFilter({ tagMatch: "all" })}
+                    />
+                    {t("tags.all")}
+                  </label>
+                </div>
+                {tagNames.length === 0 ? (
+                  <div style={{ opacity: 0.6 }}>{t("tags.none")}</div>
+                ) : (
+                  tagNames.map((name) => (
+                    <label key={name} style={{ display: "flex", alignItems: "center", gap: SPACE.xs }}>
+                      <input
+                        type="checkbox"
+                        checked={filter.tags.includes(name)}
+                        onChange={(e) =>
+                          updateFilter({
+                            tags: e.target.checked
+                              ? [...filter.tags, name]
+                              : filter.tags.filter((x) => x !== name),
+                          })
+                        }
+                      />
+                      <span
+                        style={{
+                          width: 10,
+                          height: 10,
+                          borderRadius: RADIUS.pill,
+                          background: tagColor(data.tags, name),
+                        }}
+                      />
+                      {name}
+                    </label>
+                  ))
+                )}
+
+                <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.7, marginTop: SPACE.xxs }}>
+                  {t("filter.created")}
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: SPACE.xs }}>
+                  <input
+                    type="date"
+                    value={filter.createdFrom}
+                    max={filter.createdTo || undefined}
+                    onChange={(e) => updateFilter({ createdFrom: e.target.value })}
+                    aria-label={t("filter.createdFrom")}
+                    style={{
+                      padding: PAD.chip,
+                      borderRadius: RADIUS.sm,
+                      border: `1px solid ${COLOR.borderField}`,
+                    }}
+                  />
+                  –
+                  <input
+                    type="date"
+                    value={filter.createdTo}
+                    min={filter.createdFrom || undefined}
+                    onChange={(e) => updateFilter({ createdTo: e.target.value })}
+                    aria-label={t("filter.createdTo")}
+                    style={{
+                      padding: PAD.chip,
+                      borderRadius: RADIUS.sm,
+                      border: `1px solid ${COLOR.borderField}`,
+                    }}
+                  />
+                </div>
+
+                <div style={{ display: "flex", gap: SPACE.sm, marginTop: SPACE.xxs }}>
+                  <button
+                    onClick={() => setFilter(EMPTY_FILTER)}
+                    disabled={activeCriteria(filter) === 0}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("action.clear")}
+                  </button>
+                  <button
+                    onClick={() => setTagsOpen(true)}
+                    disabled={readOnly}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("tags.manage")}
+                  </button>
+                </div>
+
+                <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.7, marginTop: SPACE.xxs }}>
+                  {t("views.title")}
+                </div>
+                {activeView ? (
+                  <div style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                    <span style={{ flex: 1, fontWeight: 700 }}>{activeView.name}</span>
+                    <button
+                      onClick={() => deleteView(activeView.id)}
+                      style={{
+                        border: `1px solid ${COLOR.dangerBorder}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                        color: COLOR.danger,
+                      }}
+                    >
+                      {t("action.delete")}
+                    </button>
+                  </div>
+                ) : null}
+                <div style={{ display: "flex", gap: SPACE.sm }}>
+                  <input
+                    value={viewName}
+                    onChange={(e) => setViewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") saveView();
+                    }}
+                    placeholder={t("views.namePlaceholder")}
+                    aria-label={t("views.namePlaceholder")}
+                    disabled={readOnly}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      padding: PAD.small,
+                      borderRadius: RADIUS.md,
+                      border: `1px solid ${COLOR.borderField}`,
+                    }}
+                  />
+                  <button
+                    onClick={saveView}
+                    disabled={readOnly || !clampStr(viewName)}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("views.save")}
+                  </button>
+                </div>
+              </div>
+            </details>
+
+            <label style={{ display: "flex", alignItems: "center", gap: SPACE.sm, fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={showUnscheduled}
+                disabled={readOnly}
+                onChange={(e) => setShowUnscheduled(e.target.checked)}
+              />
+              {t("filter.unscheduled")}
+            </label>
+
+            <select
+              value={progressMode}
+              onChange={(e) => setProgressMode(e.target.value as ProgressMode)}
+              disabled={readOnly}
+              title={t("progress.modeTitle")}
+              style={{
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+              }}
+            >
+              <option value="parent">{t("progress.modeParent")}</option>
+              <option value="subtasks">{t("progress.modeSubtasks")}</option>
+            </select>
+
+            <button
+              onClick={openCreate}
+              disabled={readOnly}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.primary,
+                color: COLOR.onPrimary,
+                fontWeight: 700,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.addTask")}
+            </button>
+
+            <button
+              onClick={undo}
+              disabled={readOnly || timeline.past.length === 0}
+              title={
+                timeline.past.length > 0
+                  ? t("undo.title", { label: timeline.past[timeline.past.length - 1].label })
+                  : t("undo.nothing")
+              }
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("undo.button")}
+            </button>
+
+            <button
+              onClick={redo}
+              disabled={readOnly || timeline.future.length === 0}
+              title={
+                timeline.future.length > 0
+                  ? t("redo.title", { label: timeline.future[0].label })
+                  : t("redo.nothing")
+              }
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("redo.button")}
+            </button>
+
+            <button
+              onClick={openTemplates}
+              disabled={readOnly}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.templates")}
+            </button>
+
+            <button
+              onClick={() => setSectionsOpen(true)}
+              disabled={readOnly}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.sections")}
+            </button>
+
+            <button
+              onClick={() => setSyncOpen(true)}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border:
+                  conflictCount > 0 || syncState.status === "error"
+                    ? `1px solid ${COLOR.danger}`
+                    : `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {syncLabel}
+            </button>
+
+            <button
+              onClick={() => setStatsOpen(true)}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.stats")}
+            </button>
+
+            <button
+              onClick={() => setDataOpen(true)}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.importExport")}
+            </button>
+
+            <button
+              onClick={resetAllToIncomplete}
+              disabled={readOnly}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+              }}
+            >
+              {t("header.reset")}
+            </button>
+
+            <button
+              onClick={clearAll}
+              disabled={readOnly}
+              style={{
+                padding: PAD.button,
+                borderRadius: RADIUS.lg,
+                border: `1px solid ${COLOR.dangerBorder}`,
+                background: COLOR.surface,
+                cursor: "pointer",
+                color: COLOR.danger,
+                fontWeight: 700,
+              }}
+            >
+              {t("action.clear")}
+            </button>
+
+            <select
+              value={language}
+              onChange={(e) => onLanguageChange(e.target.value as Language)}
+              title={t("language.label")}
+              aria-label={t("language.label")}
+              style={{
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+              }}
+            >
+              {LANGUAGES.map((l) => (
+                <option key={l.value} value={l.value}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={themeChoice}
+              onChange={(e) => onThemeChange(e.target.value as ThemeChoice)}
+              title={t("theme.label")}
+              aria-label={t("theme.label")}
+              style={{
+                padding: PAD.field,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+              }}
+            >
+              {THEME_CHOICES.map((c) => (
+                <option key={c.value} value={c.value}>
+                  {c.value === "system"
+                    ? `${t(c.label)} (${t(`theme.${theme}`)})`
+                    : t(c.label)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {storageNoticeOpen ? (
+          <div
+            style={{
+              background: COLOR.surface,
+              borderRadius: RADIUS.xl,
+              padding: PAD.wide,
+              border: `1px solid ${COLOR.warningBorder}`,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: SPACE.lg,
+              fontSize: 13,
+              flexWrap: "wrap",
+            }}
+          >
+            <span>
+              {stored.unreadable ? `${t("storage.unreadable")} ` : ""}
+              {stored.repaired > 0
+                ? `${t("storage.repaired", { count: stored.repaired })} `
+                : ""}
+              {quarantine.length > 0 ? t("storage.quarantined", { count: quarantine.length }) : ""}
+            </span>
+            <div style={{ display: "flex", gap: SPACE.sm }}>
+              {quarantine.length > 0 ? (
+                <button
+                  onClick={() => {
+                    if (!confirm(t("confirm.discardQuarantine"))) return;
+                    setQuarantine([]);
+                  }}
+                  style={{
+                    border: `1px solid ${COLOR.dangerBorder}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.md,
+                    padding: PAD.small,
+                    cursor: "pointer",
+                    fontWeight: 700,
+                    color: COLOR.danger,
+                  }}
+                >
+                  {t("action.discard")}
+                </button>
+              ) : null}
+              <button
+                onClick={() => setStorageNoticeOpen(false)}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.surface,
+                  borderRadius: RADIUS.md,
+                  padding: PAD.small,
+                  cursor: "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                {t("action.dismiss")}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {/* Reminders */}
+        {alerts.map((r) => (
+          <div
+            key={r.key}
+            role="alert"
+            style={{
+              background: COLOR.surface,
+              borderRadius: RADIUS.xl,
+              padding: PAD.wide,
+              border: `1px solid ${COLOR.infoBorder}`,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: SPACE.lg,
+              fontSize: 13,
+              flexWrap: "wrap",
+            }}
+          >
+            <span>
+              🔔 <b>{r.title}</b> — {r.body}
+            </span>
+            <div style={{ display: "flex", gap: SPACE.sm, flexWrap: "wrap" }}>
+              {notifyPermission === "default" ? (
+                <button
+                  onClick={requestNotifications}
+                  style={{
+                    border: `1px solid ${COLOR.border}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.md,
+                    padding: PAD.small,
+                    cursor: "pointer",
+                    fontWeight: 700,
+                  }}
+                >
+                  {t("notify.enable")}
+                </button>
+              ) : null}
+              <button
+                onClick={() => completeReminder(r)}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.surface,
+                  borderRadius: RADIUS.md,
+                  padding: PAD.small,
+                  cursor: "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                {t(r.kind === "task" ? "reminder.markDone" : "reminder.markAllDone")}
+              </button>
+              <button
+                onClick={() => snoozeReminder(r)}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.surface,
+                  borderRadius: RADIUS.md,
+                  padding: PAD.small,
+                  cursor: "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                {t("reminder.snooze", { minutes: SNOOZE_MINUTES })}
+              </button>
+              <button
+                onClick={() => dismissAlert(r.key)}
+                aria-label={t("reminder.dismiss")}
+                style={{
+                  border: "none",
+                  background: "transparent",
+                  cursor: "pointer",
+                  opacity: 0.6,
+                }}
+              >
+                <IconX />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {readOnly ? (
+          <div
+            style={{
+              background: COLOR.surface,
+              borderRadius: RADIUS.xl,
+              padding: PAD.wide,
+              border: `1px solid ${COLOR.borderSubtle}`,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: SPACE.lg,
+              fontSize: 13,
+            }}
+          >
+            <span>
+              {t("history.viewing")} <b>{formatDay(language, viewDate)}</b> —{" "}
+              {t("history.readOnly")}
+            </span>
+            <button
+              onClick={() => setViewDate("")}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("history.back")}
+            </button>
+          </div>
+        ) : null}
+
+        {/* Quick add */}
+        {readOnly ? null : (
+          <div
+            style={{
+              background: COLOR.surface,
+              borderRadius: RADIUS.xl,
+              padding: PAD.wide,
+              border: `1px solid ${COLOR.borderSubtle}`,
+              display: "flex",
+              flexDirection: "column",
+              gap: SPACE.sm,
+              fontSize: 13,
+            }}
+          >
+            <div style={{ display: "flex", gap: SPACE.sm, alignItems: "flex-start" }}>
+              <textarea
+                value={quickText}
+                onChange={(e) => setQuickText(e.target.value)}
+                onKeyDown={(e) => {
+                  // Entrée ajoute, Maj+Entrée passe à la ligne
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitQuickAdd();
+                  }
+                }}
+                rows={Math.min(quickText.split("\n").length, 6)}
+                placeholder={t("quick.placeholder")}
+                aria-label={t("quick.label")}
+                title={t("quick.hint")}
+                style={{
+                  flex: 1,
+                  padding: PAD.field,
+                  borderRadius: RADIUS.md,
+                  border: `1px solid ${COLOR.borderField}`,
+                  resize: "none",
+                  font: "inherit",
+                }}
+              />
+              <button
+                onClick={submitQuickAdd}
+                disabled={quickPreview.length === 0}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.primary,
+                  color: COLOR.onPrimary,
+                  borderRadius: RADIUS.md,
+                  padding: PAD.field,
+                  cursor: "pointer",
+                  fontWeight: 800,
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {quickPreview.length > 1
+                  ? t("quick.addMany", { count: quickPreview.length })
+                  : t("quick.add")}
+              </button>
+            </div>
+
+            {quickPreview.length > 0 ? (
+              <ul
+                aria-label={t("quick.preview")}
+                style={{
+                  margin: 0,
+                  padding: 0,
+                  listStyle: "none",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: SPACE.xxs,
+                  maxHeight: 180,
+                  overflow: "auto",
+                }}
+              >
+                {quickPreview.map((q, i) => {
+                  const section = sections.find((s) => s.id === q.section);
+                  return (
+                    <li
+                      key={i}
+                      style={{ display: "flex", alignItems: "center", gap: SPACE.xs, flexWrap: "wrap" }}
+                    >
+                      <span
+                        style={{
+                          fontSize: 12,
+                          padding: PAD.chip,
+                          borderRadius: RADIUS.pill,
+                          background: section?.color,
+                          color: COLOR.onAccent,
+                          fontWeight: 700,
+                        }}
+                      >
+                        {section?.name}
+                      </span>
+                      <b>{q.title}</b>
+                      {q.tags.map((name) => (
+                        <span
+                          key={name}
+                          style={{
+                            fontSize: 12,
+                            padding: PAD.chip,
+                            borderRadius: RADIUS.pill,
+                            border: `1px solid ${tagColor(data.tags, name)}`,
+                            color: tagColor(data.tags, name),
+                            fontWeight: 700,
+                          }}
+                        >
+                          {name}
+                        </span>
+                      ))}
+                      {q.comment ? <span style={{ opacity: 0.7 }}>💬 {q.comment}</span> : null}
+                      {q.unknownSection ? (
+                        <span style={{ color: COLOR.warning }}>
+                          {t("quick.unknownSection", { name: q.unknownSection })}
+                        </span>
+                      ) : null}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : null}
+          </div>
+        )}
+
+        {/* Selection */}
+        {selection.size > 0 ? (
+          <div
+            role="toolbar"
+            aria-label={t("selection.toolbar")}
+            style={{
+              position: "sticky",
+              top: SPACE.sm,
+              zIndex: 5,
+              background: COLOR.surface,
+              borderRadius: RADIUS.xl,
+              padding: PAD.wide,
+              border: `2px solid ${COLOR.selection}`,
+              boxShadow: `0 8px 22px ${COLOR.shadow}`,
+              display: "flex",
+              alignItems: "center",
+              gap: SPACE.sm,
+              fontSize: 13,
+              flexWrap: "wrap",
+            }}
+          >
+            <span aria-live="polite" style={{ fontWeight: 800, marginRight: SPACE.xs }}>
+              {t("selection.count", { count: selection.size })}
+            </span>
+            <button
+              onClick={() => bulkSetDone(true)}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("selection.markDone")}
+            </button>
+            <button
+              onClick={() => bulkSetDone(false)}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("selection.markNotDone")}
+            </button>
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) bulkMove(e.target.value);
+              }}
+              aria-label={t("selection.moveTo")}
+              style={{
+                padding: PAD.small,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+                background: COLOR.surface,
+                fontWeight: 700,
+              }}
+            >
+              <option value="">{t("selection.moveTo")}</option>
+              {sections.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+            <input
+              value={bulkTags}
+              onChange={(e) => setBulkTags(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") bulkSetTags("add");
+              }}
+              placeholder={t("selection.tagsPlaceholder")}
+              aria-label={t("field.tags")}
+              list="bulk-tag-names"
+              style={{
+                width: 160,
+                padding: PAD.small,
+                borderRadius: RADIUS.md,
+                border: `1px solid ${COLOR.borderField}`,
+              }}
+            />
+            <datalist id="bulk-tag-names">
+              {tagNames.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <button
+              onClick={() => bulkSetTags("add")}
+              disabled={parseTags(bulkTags).length === 0}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("selection.addTags")}
+            </button>
+            <button
+              onClick={() => bulkSetTags("replace")}
+              title={t("selection.setTagsHint")}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("selection.setTags")}
+            </button>
+            <button
+              onClick={bulkDuplicate}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("boards.duplicate")}
+            </button>
+            <button
+              onClick={bulkDelete}
+              style={{
+                border: `1px solid ${COLOR.dangerBorder}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+                color: COLOR.danger,
+              }}
+            >
+              {t("action.delete")}
+            </button>
+            <button
+              onClick={() => setSelectedIds(visibleCardIds())}
+              style={{
+                border: `1px solid ${COLOR.border}`,
+                background: COLOR.surface,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {t("selection.selectAll")}
+            </button>
+            <button
+              onClick={clearSelection}
+              aria-label={t("selection.clear")}
+              title={t("selection.clear")}
+              style={{
+                border: "none",
+                background: "transparent",
+                cursor: "pointer",
+                opacity: 0.6,
+                marginLeft: "auto",
+              }}
+            >
+              <IconX />
+            </button>
+          </div>
+        ) : null}
+
+        {/* Board */}
+        <DndContext
+          sensors={sensors}
+          collisionDetection={boardCollision}
+          onDragStart={onDragStart}
+          onDragOver={onDragOver}
+          onDragCancel={onDragCancel}
+          onDragEnd={onDragEnd}
+          accessibility={{
+            announcements,
+            screenReaderInstructions: {
+              draggable: t("drag.instructions"),
+            },
+          }}
+        >
+          <div
+            onKeyDown={onBoardKeyDown}
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+              gap: SPACE.lg,
+            }}
+          >
+            {shownSections.map((s) => {
+              const list = columnTasks(filteredTasks, s.id);
+              const st = sectionStats[s.id];
+
+              return (
+                <DroppableColumn
+                  key={s.id}
+                  id={s.id}
+                  label={t("section.doneLabel", {
+                    section: s.name,
+                    done: st.done,
+                    total: st.total,
+                  })}
+                  disabled={readOnly}
+                  style={{
+                    background: COLOR.surfaceMuted,
+                    borderRadius: RADIUS.xl,
+                    padding: SPACE.lg,
+                    border: `1px solid ${COLOR.borderSubtle}`,
+                    borderTop: `4px solid ${s.color}`,
+                    boxShadow: `0 8px 22px ${COLOR.shadow}`,
+                    display: "flex",
+                    flexDirection: "column",
+                    minHeight: 360,
+                  }}
+                >
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "space-between",
+                      gap: SPACE.md,
+                      marginBottom: SPACE.md,
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontSize: 16, fontWeight: 900 }}>
+                        {s.name}
+                        {s.startTime ? (
+                          <span style={{ fontSize: 12, fontWeight: 600, opacity: 0.6 }}>
+                            {" "}
+                            · {s.startTime}
+                          </span>
+                        ) : null}
+                      </div>
+                      <div style={{ fontSize: 13, opacity: 0.7 }}>
+                        {t("section.progress", {
+                          count: st.done,
+                          done: st.done,
+                          total: st.total,
+                          pct: st.pct,
+                        })}
+                      </div>
+                    </div>
+                    <div
+                      style={{
+                        display: "flex",
+                        flexDirection: "column",
+                        alignItems: "flex-end",
+                        gap: SPACE.xxs,
+                      }}
+                    >
+                      <div style={{ fontSize: 18, fontWeight: 900 }}>
+                        {formatDuration(st.spent) ? (
+                          <span
+                            title={t("section.timeSpent")}
+                            style={{ fontSize: 12, fontWeight: 600, opacity: 0.7 }}
+                          >
+                            ⏱ {formatDuration(st.spent)} ·{" "}
+                          </span>
+                        ) : null}
+                        {st.pct}%
+                      </div>
+                      {readOnly ? null : (
+                        <select
+                          value={s.sort ?? "manual"}
+                          onChange={(e) => setSectionSort(s.id, e.target.value as SectionSort)}
+                          aria-label={t("section.sortLabel", { section: s.name })}
+                          title={t("section.sortTitle")}
+                          style={{
+                            fontSize: 12,
+                            padding: "3px 6px",
+                            borderRadius: RADIUS.sm,
+                            border: `1px solid ${COLOR.borderField}`,
+                            background: COLOR.surface,
+                          }}
+                        >
+                          {SECTION_SORTS.map((o) => (
+                            <option key={o.value} value={o.value}>
+                              {t(o.label)}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
 
-  function onDragEnd(event: DragEndEvent) {
-    const { active, over } = event;
-    if (!over) return;
-    if (active.id === over.id) return;
+                  <SortableContext
+                    items={list.map((task) => task.id)}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    {list.length === 0 ? (
+                      <div style={{ fontSize: 13, opacity: 0.6, padding: SPACE.md }}>
+                        {t(readOnly ? "column.emptyReadOnly" : "column.empty")}
+                      </div>
+                    ) : null}
+                    <div style={{ display: "flex", flexDirection: "column", gap: SPACE.md }}>
+                      {list.map((task) => {
+                        const priority = PRIORITIES.find((p) => p.value === task.priority);
+                        const due = dueStatus(task, now);
+                        const spent = timeSpent(task, shownDay, now);
+                        const timer = readOnly ? undefined : task.timer;
+                        return (
+                          <SortableTaskCard
+                            key={task.id}
+                            id={task.id}
+                            section={s.id}
+                            label={task.title}
+                            disabled={readOnly}
+                            selected={selection.has(task.id)}
+                            onSelect={readOnly ? undefined : (e) => onCardClick(task.id, e)}
+                          >
+                            {(handle) => (
+                              <div
+                                style={{
+                                  border: `1px solid ${COLOR.borderSubtle}`,
+                                  borderRadius: RADIUS.xl,
+                                  padding: SPACE.lg,
+                                  display: "flex",
+                                  flexDirection: "column",
+                                  gap: SPACE.md,
+                                  background: COLOR.surface,
+                                  opacity: readOnly || isScheduled(task, today) ? 1 : 0.55,
+                                }}
+                              >
+                                <div style={{ display: "flex", alignItems: "flex-start", gap: SPACE.md }}>
+                                  {handle}
+                                  <input
+                                    type="checkbox"
+                                    checked={task.done}
+                                    disabled={readOnly}
+                                    onChange={() => toggleDone(task.id)}
+                                    aria-label={t("card.markAs", {
+                                      title: task.title,
+                                      state: t(task.done ? "card.stateNotDone" : "card.stateDone"),
+                                    })}
+                                    style={{ marginTop: SPACE.xxs }}
+                                  />
 
-    const activeId = String(active.id);
-    const overId = String(over.id);
+                                  <div style={{ flex: 1 }}>
+                                    <div
+                                      style={{
+                                        fontWeight: 800,
+                                        textDecoration: task.done ? "line-through" : "none",
+                                        opacity: task.done ? 0.65 : 1,
+                                      }}
+                                    >
+                                      <Highlight text={task.title} terms={searchWords} />
+                                    </div>
 
-    const activeTask = tasks.find((t) => t.id === activeId);
-    const overTask = tasks.find((t) => t.id === overId);
-    if (!activeTask || !overTask) return;
+                                    <div style={{ display: "flex", gap: SPACE.sm, marginTop: SPACE.xs, flexWrap: "wrap" }}>
+                                      {task.priority ? (
+                                        <span
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px solid ${priority?.color}`,
+                                            color: priority?.color,
+                                            fontWeight: 800,
+                                          }}
+                                        >
+                                          {priority ? t(priority.label) : null}
+                                        </span>
+                                      ) : null}
 
-    // simple: réordonne seulement dans la même section
-    if (activeTask.section !== overTask.section) return;
+                                      {due ? (
+                                        <span
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            fontWeight: due === "later" ? 400 : 800,
+                                            border:
+                                              due === "overdue"
+                                                ? `1px solid ${COLOR.danger}`
+                                                : due === "soon"
+                                                  ? `1px solid ${COLOR.warning}`
+                                                  : `1px dashed ${COLOR.borderStrong}`,
+                                            background:
+                                              due === "overdue"
+                                                ? COLOR.danger
+                                                : due === "soon"
+                                                  ? COLOR.warningSurface
+                                                  : "transparent",
+                                            color: due === "overdue" ? COLOR.onAccent : undefined,
+                                          }}
+                                        >
+                                          {t(due === "overdue" ? "card.overdue" : "card.due", {
+                                            when: dueLabel(task, now, i18n),
+                                          })}
+                                        </span>
+                                      ) : null}
 
-    const section = activeTask.section;
+                                      {(task.tags ?? []).map((name) => (
+                                        <span
+                                          key={name}
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px solid ${tagColor(data.tags, name)}`,
+                                            color: tagColor(data.tags, name),
+                                            fontWeight: 700,
+                                          }}
+                                        >
+                                          <Highlight text={name} terms={searchWords} />
+                                        </span>
+                                      ))}
 
-    const sectionTasks = tasks
-      .filter((t) => t.section === section)
-      .sort((a, b) => (a.order ?? 999999) - (b.order ?? 999999));
+                                      {task.recurrence ? (
+                                        <span
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px dashed ${COLOR.borderStrong}`,
+                                            opacity: 0.85,
+                                          }}
+                                        >
+                                          ↻ {recurrenceLabel(i18n, task.recurrence)}
+                                          {readOnly || isScheduled(task, today)
+                                            ? ""
+                                            : ` · ${t("card.notToday")}`}
+                                        </span>
+                                      ) : null}
 
-    const oldIndex = sectionTasks.findIndex((t) => t.id === activeId);
-    const newIndex = sectionTasks.findIndex((t) => t.id === overId);
-    if (oldIndex === -1 || newIndex === -1) return;
+                                      {task.reminder ? (
+                                        <span
+                                          title={t("field.reminder")}
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px dashed ${COLOR.borderStrong}`,
+                                            opacity: 0.85,
+                                          }}
+                                        >
+                                          ⏰ {task.reminder}
+                                        </span>
+                                      ) : null}
 
-    const moved = arrayMove(sectionTasks, oldIndex, newIndex);
-    const orderMap = new Map<string, number>();
-    moved.forEach((t, idx) => orderMap.set(t.id, idx));
+                                      {task.subtasks?.length ? (
+                                        <span
+                                          title={t("card.checklistProgress")}
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px solid ${COLOR.border}`,
+                                            fontWeight: 700,
+                                          }}
+                                        >
+                                          ☑ {task.subtasks.filter((st) => st.done).length}/
+                                          {task.subtasks.length}
+                                        </span>
+                                      ) : null}
 
-    setTasks((prev) =>
-      prev.map((t) =>
-        t.section === section ? { ...t, order: orderMap.get(t.id) ?? 0 } : t
-      )
-    );
-  }
+                                      {timer || task.planned || formatDuration(spent) ? (
+                                        <span
+                                          title={t("card.timeSpent")}
+                                          style={{
+                                            fontSize: 12,
+                                            padding: PAD.chip,
+                                            borderRadius: RADIUS.pill,
+                                            border: `1px solid ${timer ? COLOR.accent : COLOR.border}`,
+                                            fontWeight: timer ? 800 : 400,
+                                            fontVariantNumeric: "tabular-nums",
+                                          }}
+                                        >
+                                          {timer?.pomodoro ? "🍅" : "⏱"}{" "}
+                                          {timer
+                                            ? `${formatClock(
+                                                timer.until !== undefined ? timer.until - now : now - timer.start
+                                              )} · `
+                                            : ""}
+                                          {formatDuration(spent) || "0 min"}
+                                          {task.planned ? ` / ${formatDuration(task.planned * 60_000)}` : ""}
+                                        </span>
+                                      ) : null}
 
-  return (
-    <div
-      style={{
-        padding: 18,
-        fontFamily:
-          'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, "Helvetica Neue", Arial',
-        color: "rgba(0,0,0,0.88)",
-        background: "rgba(145, 116, 117, 0.24)",
-        minHeight: "100vh",
-      }}
-    >
-      <div
-        style={{
-          width: "100%",
-          padding: "0 24px",
-          display: "flex",
-          flexDirection: "column",
-          gap: 14,
-        }}
-      >
-        {/* Header */}
-        <div
-          style={{
-            background: "white",
-            borderRadius: 18,
-            padding: 16,
-            boxShadow: "0 8px 22px rgba(0,0,0,0.06)",
-            border: "1px solid rgba(101, 144, 44, 0.48)",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "space-between",
-            gap: 16,
-            flexWrap: "wrap",
-          }}
+                                      <span style={{ display: "inline-flex", alignItems: "center", gap: SPACE.xs }}>
+                                        {task.done ? <IconCheck /> : <IconX />}
+                                        <span style={{ fontSize: 12, opacity: 0.75 }}>
+                                          {t(task.done ? "card.completed" : "status.notDone")}
+                                        </span>
+                                      </span>
+                                    </div>
+
+                                    {task.subtasks?.length ? (
+                                      <div
+                                        style={{
+                                          marginTop: SPACE.sm,
+                                          display: "flex",
+                                          flexDirection: "column",
+                                          gap: SPACE.xxs,
+                                        }}
+                                      >
+                                        {task.subtasks.map((st) => (
+                                          <label
+                                            key={st.id}
+                                            style={{
+                                              display: "flex",
+                                              alignItems: "center",
+                                              gap: SPACE.sm,
+                                              fontSize: 13,
+                                              textDecoration: st.done ? "line-through" : "none",
+                                              opacity: st.done ? 0.6 : 1,
+                                            }}
+                                          >
+                                            <input
+                                              type="checkbox"
+                                              checked={st.done}
+                                              disabled={readOnly}
+                                              onChange={() => toggleSubtask(task.id, st.id)}
+                                            />
+                                            {st.title}
+                                          </label>
+                                        ))}
+                                      </div>
+                                    ) : null}
+
+                                    {task.notes?.length ? (
+                                      <div style={{ marginTop: SPACE.sm, fontSize: 13, opacity: 0.85 }}>
+                                        <CardNotes notes={task.notes} terms={searchWords} />
+                                      </div>
+                                    ) : (
+                                      <div style={{ marginTop: SPACE.sm, fontSize: 13, opacity: 0.5 }}>
+                                        💬 {t("card.noNotes")}
+                                      </div>
+                                    )}
+                                  </div>
+
+                                  {readOnly ? null : (
+                                    <div style={{ display: "flex", flexDirection: "column", gap: SPACE.sm }}>
+                                      <button
+                                        onClick={() => toggleTimer(task.id)}
+                                        aria-label={t(timer ? "timer.stopLabel" : "timer.startLabel", {
+                                          title: task.title,
+                                        })}
+                                        title={t(timer ? "timer.stop" : "timer.start")}
+                                        style={{
+                                          border: `1px solid ${COLOR.border}`,
+                                          background: COLOR.surface,
+                                          borderRadius: RADIUS.md,
+                                          padding: PAD.small,
+                                          cursor: "pointer",
+                                          fontWeight: 700,
+                                        }}
+                                      >
+                                        {timer ? "■" : "▶"}
+                                      </button>
+                                      {timer ? null : (
+                                        <button
+                                          onClick={() => toggleTimer(task.id, true)}
+                                          aria-label={t("timer.pomodoroLabel", {
+                                            title: task.title,
+                                            minutes: POMODORO_MINUTES,
+                                          })}
+                                          title={t("timer.pomodoro", { minutes: POMODORO_MINUTES })}
+                                          style={{
+                                            border: `1px solid ${COLOR.border}`,
+                                            background: COLOR.surface,
+                                            borderRadius: RADIUS.md,
+                                            padding: PAD.small,
+                                            cursor: "pointer",
+                                            fontWeight: 700,
+                                          }}
+                                        >
+                                          🍅
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => openEdit(task)}
+                                        aria-label={t("card.editLabel", { title: task.title })}
+                                        style={{
+                                          border: `1px solid ${COLOR.border}`,
+                                          background: COLOR.surface,
+                                          borderRadius: RADIUS.md,
+                                          padding: PAD.small,
+                                          cursor: "pointer",
+                                          fontWeight: 700,
+                                        }}
+                                      >
+                                        {t("action.edit")}
+                                      </button>
+                                      <button
+                                        onClick={() => removeTask(task.id)}
+                                        aria-label={t("card.deleteLabel", { title: task.title })}
+                                        style={{
+                                          border: `1px solid ${COLOR.dangerBorder}`,
+                                          background: COLOR.surface,
+                                          borderRadius: RADIUS.md,
+                                          padding: PAD.small,
+                                          cursor: "pointer",
+                                          fontWeight: 700,
+                                          color: COLOR.danger,
+                                        }}
+                                      >
+                                        {t("action.delete")}
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </SortableTaskCard>
+                        );
+                      })}
+                    </div>
+                  </SortableContext>
+                </DroppableColumn>
+              );
+            })}
+          </div>
+
+          <DragOverlay>
+            {activeDragId ? (
+              <div
+                style={{
+                  border: `1px solid ${COLOR.borderSubtle}`,
+                  borderRadius: RADIUS.xl,
+                  padding: SPACE.lg,
+                  background: COLOR.surface,
+                  boxShadow: `0 16px 40px ${COLOR.shadowStrong}`,
+                  fontWeight: 800,
+                  cursor: "grabbing",
+                }}
+              >
+                {tasks.find((task) => task.id === activeDragId)?.title}
+              </div>
+            ) : null}
+          </DragOverlay>
+        </DndContext>
+
+        <Modal
+          open={modalOpen}
+          title={t(editingId ? "form.editTitle" : "form.addTitle")}
+          onClose={closeModal}
         >
-          <div style={{ display: "flex", alignItems: "center", gap: 14 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: SPACE.lg }}>
+            {editingTask ? (
+              <div style={{ gridColumn: "1 / -1", fontSize: 12, opacity: 0.6 }}>
+                {t("form.created", { date: formatDateTime(language, editingTask.createdAt) })}
+              </div>
+            ) : null}
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("form.titleLabel")}
+              </div>
+              <input
+                value={formTitle}
+                onChange={(e) => setFormTitle(e.target.value)}
+                placeholder={t("form.titlePlaceholder")}
+                style={{
+                  width: "100%",
+                  padding: PAD.control,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.borderField}`,
+                }}
+              />
+            </div>
+
             <div>
-              <div style={{ fontSize: 22, fontWeight: 900 }}>Journey Task Board</div>
-              <div style={{ fontSize: 13, opacity: 0.7 }}>
-                Morning / Midday / After Work — tick tasks, add comments, track progress.
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.section")}
               </div>
+              <select
+                value={formSection}
+                onChange={(e) => setFormSection(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: PAD.control,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.borderField}`,
+                  background: COLOR.surface,
+                }}
+              >
+                {sections.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
             </div>
-            <div style={{ color: "rgba(0,0,0,0.65)" }}>
-              <ProgressRing value={globalProgress} />
+
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.tags")}
+              </div>
+              <input
+                value={formTags}
+                onChange={(e) => setFormTags(e.target.value)}
+                placeholder={t("form.tagsPlaceholder")}
+                style={{
+                  width: "100%",
+                  padding: PAD.control,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.borderField}`,
+                }}
+              />
+              {data.tags.length > 0 ? (
+                <div style={{ display: "flex", gap: SPACE.xs, flexWrap: "wrap", marginTop: SPACE.xs }}>
+                  {data.tags.map((tag) => {
+                    const current = parseTags(formTags);
+                    const on = current.includes(tag.name);
+                    return (
+                      <button
+                        key={tag.name}
+                        onClick={() =>
+                          setFormTags(
+                            (on
+                              ? current.filter((x) => x !== tag.name)
+                              : [...current, tag.name]
+                            ).join(", ")
+                          )
+                        }
+                        style={{
+                          fontSize: 12,
+                          padding: PAD.chip,
+                          borderRadius: RADIUS.pill,
+                          border: `1px solid ${tag.color}`,
+                          background: on ? tag.color : COLOR.surface,
+                          color: on ? COLOR.onAccent : tag.color,
+                          fontWeight: 700,
+                          cursor: "pointer",
+                        }}
+                      >
+                        {tag.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : null}
+            </div>
+
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.priority")}
+              </div>
+              <select
+                value={formPriority}
+                onChange={(e) => setFormPriority(e.target.value as Priority | "")}
+                style={{
+                  width: "100%",
+                  padding: PAD.control,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.borderField}`,
+                  background: COLOR.surface,
+                }}
+              >
+                <option value="">{t("form.none")}</option>
+                {PRIORITIES.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {t(p.label)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.due")}
+              </div>
+              <div style={{ display: "flex", gap: SPACE.sm }}>
+                <input
+                  type="date"
+                  value={formDueDate}
+                  onChange={(e) => setFormDueDate(e.target.value)}
+                  aria-label={t("form.dueDate")}
+                  style={{
+                    flex: 1,
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+                <input
+                  type="time"
+                  value={formDueTime}
+                  onChange={(e) => setFormDueTime(e.target.value)}
+                  disabled={!formDueDate}
+                  aria-label={t("form.dueTime")}
+                  style={{
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.repeat")}
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: SPACE.md, flexWrap: "wrap" }}>
+                <select
+                  value={formRecurrence.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as Recurrence["kind"];
+                    if (kind === "daily") setFormRecurrence({ kind });
+                    if (kind === "weekdays")
+                      setFormRecurrence({ kind, days: [parseDay(today).getDay()] });
+                    if (kind === "interval") setFormRecurrence({ kind, every: 2, start: today });
+                    if (kind === "monthly")
+                      setFormRecurrence({ kind, day: parseDay(today).getDate() });
+                  }}
+                  style={{
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                    background: COLOR.surface,
+                  }}
+                >
+                  <option value="daily">{t("repeat.daily")}</option>
+                  <option value="weekdays">{t("repeat.weekdays")}</option>
+                  <option value="interval">{t("repeat.interval")}</option>
+                  <option value="monthly">{t("repeat.monthly")}</option>
+                </select>
+
+                {formRecurrence.kind === "weekdays"
+                  ? weekdayNames(language).map((label, d) => {
+                      const days = formRecurrence.days;
+                      return (
+                        <label
+                          key={label}
+                          style={{ display: "flex", alignItems: "center", gap: SPACE.xxs, fontSize: 13 }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={days.includes(d)}
+                            onChange={(e) =>
+                              setFormRecurrence({
+                                kind: "weekdays",
+                                days: e.target.checked
+                                  ? [...days, d]
+                                  : days.filter((x) => x !== d),
+                              })
+                            }
+                          />
+                          {label}
+                        </label>
+                      );
+                    })
+                  : null}
+
+                {formRecurrence.kind === "interval" ? (
+                  <>
+                    <span style={{ fontSize: 13 }}>{t("repeat.every")}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formRecurrence.every}
+                      onChange={(e) =>
+                        setFormRecurrence({
+                          ...formRecurrence,
+                          every: Math.max(1, Math.floor(Number(e.target.value) || 1)),
+                        })
+                      }
+                      style={{
+                        width: 70,
+                        padding: PAD.control,
+                        borderRadius: RADIUS.lg,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                    <span style={{ fontSize: 13 }}>{t("repeat.daysStarting")}</span>
+                    <input
+                      type="date"
+                      value={formRecurrence.start}
+                      onChange={(e) =>
+                        setFormRecurrence({ ...formRecurrence, start: e.target.value || today })
+                      }
+                      style={{
+                        padding: PAD.control,
+                        borderRadius: RADIUS.lg,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                  </>
+                ) : null}
+
+                {formRecurrence.kind === "monthly" ? (
+                  <>
+                    <span style={{ fontSize: 13 }}>{t("repeat.onDay")}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={formRecurrence.day}
+                      onChange={(e) =>
+                        setFormRecurrence({
+                          kind: "monthly",
+                          day: Math.min(31, Math.max(1, Math.floor(Number(e.target.value) || 1))),
+                        })
+                      }
+                      style={{
+                        width: 70,
+                        padding: PAD.control,
+                        borderRadius: RADIUS.lg,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                  </>
+                ) : null}
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.reminder")}
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: SPACE.md, flexWrap: "wrap" }}>
+                <input
+                  type="time"
+                  value={formReminder}
+                  onChange={(e) => setFormReminder(e.target.value)}
+                  aria-label={t("form.reminderTime")}
+                  style={{
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+                {formReminder ? (
+                  <button
+                    onClick={() => setFormReminder("")}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("form.noReminder")}
+                  </button>
+                ) : (
+                  <span style={{ fontSize: 12, opacity: 0.6 }}>
+                    {t("form.reminderHint")}
+                  </span>
+                )}
+                {formReminder && notifyPermission === "default" ? (
+                  <button
+                    onClick={requestNotifications}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("notify.enable")}
+                  </button>
+                ) : null}
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.planned")}
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: SPACE.md, flexWrap: "wrap" }}>
+                <input
+                  type="number"
+                  min={1}
+                  step={5}
+                  value={formPlanned}
+                  onChange={(e) => setFormPlanned(e.target.value)}
+                  aria-label={t("form.plannedMinutes")}
+                  placeholder="—"
+                  style={{
+                    width: 90,
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+                <span style={{ fontSize: 13, opacity: 0.75 }}>{t("form.minutesPerDay")}</span>
+                <label style={{ display: "flex", alignItems: "center", gap: SPACE.sm, fontSize: 13 }}>
+                  <input
+                    type="checkbox"
+                    checked={formAutoDone}
+                    disabled={!(Number(formPlanned) >= 1)}
+                    onChange={(e) => setFormAutoDone(e.target.checked)}
+                  />
+                  {t("field.autoDone")}
+                </label>
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.checklist")}
+              </div>
+              <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xs }}>
+                {formSubtasks.map((st, idx) => (
+                  <div key={st.id} style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                    <input
+                      type="checkbox"
+                      checked={st.done}
+                      onChange={(e) =>
+                        setFormSubtasks((prev) =>
+                          prev.map((x) => (x.id === st.id ? { ...x, done: e.target.checked } : x))
+                        )
+                      }
+                    />
+                    <input
+                      value={st.title}
+                      onChange={(e) =>
+                        setFormSubtasks((prev) =>
+                          prev.map((x) => (x.id === st.id ? { ...x, title: e.target.value } : x))
+                        )
+                      }
+                      style={{
+                        flex: 1,
+                        padding: PAD.field,
+                        borderRadius: RADIUS.md,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                    <button
+                      onClick={() => setFormSubtasks((prev) => arrayMove(prev, idx, idx - 1))}
+                      disabled={idx === 0}
+                      title={t("form.moveUp")}
+                      style={{
+                        border: `1px solid ${COLOR.border}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                      }}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => setFormSubtasks((prev) => prev.filter((x) => x.id !== st.id))}
+                      title={t("form.removeItem")}
+                      style={{
+                        border: `1px solid ${COLOR.dangerBorder}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                        color: COLOR.danger,
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <input
+                  value={formSubtaskDraft}
+                  onChange={(e) => setFormSubtaskDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key !== "Enter" || !clampStr(formSubtaskDraft)) return;
+                    e.preventDefault();
+                    setFormSubtasks((prev) => [
+                      ...prev,
+                      { id: uid(), title: clampStr(formSubtaskDraft), done: false },
+                    ]);
+                    setFormSubtaskDraft("");
+                  }}
+                  placeholder={t("form.checklistPlaceholder")}
+                  style={{
+                    width: "100%",
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1" }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("field.notes")}
+              </div>
+              <div style={{ display: "flex", flexDirection: "column", gap: SPACE.sm }}>
+                {formNotes.map((n) => (
+                  <div key={n.id} style={{ display: "flex", gap: SPACE.sm, alignItems: "flex-start" }}>
+                    <div style={{ flex: 1, fontSize: 13 }}>
+                      {editingNoteId === n.id ? (
+                        <textarea
+                          value={n.text}
+                          onChange={(e) =>
+                            setFormNotes((prev) =>
+                              prev.map((x) =>
+                                x.id === n.id ? { ...x, text: e.target.value, editedAt: Date.now() } : x
+                              )
+                            )
+                          }
+                          aria-label={t("notes.editLabel")}
+                          rows={3}
+                          autoFocus
+                          style={{
+                            width: "100%",
+                            padding: PAD.field,
+                            borderRadius: RADIUS.md,
+                            border: `1px solid ${COLOR.borderField}`,
+                            resize: "vertical",
+                          }}
+                        />
+                      ) : (
+                        <NoteView note={n} terms={[]} />
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setEditingNoteId(editingNoteId === n.id ? null : n.id)}
+                      style={{
+                        border: `1px solid ${COLOR.border}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {editingNoteId === n.id ? t("notes.done") : t("action.edit")}
+                    </button>
+                    <button
+                      onClick={() => setFormNotes((prev) => prev.filter((x) => x.id !== n.id))}
+                      title={t("notes.delete")}
+                      aria-label={t("notes.delete")}
+                      style={{
+                        border: `1px solid ${COLOR.dangerBorder}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                        color: COLOR.danger,
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <textarea
+                  value={formNoteDraft}
+                  onChange={(e) => setFormNoteDraft(e.target.value)}
+                  placeholder={t("form.notePlaceholder")}
+                  rows={3}
+                  style={{
+                    width: "100%",
+                    padding: PAD.control,
+                    borderRadius: RADIUS.lg,
+                    border: `1px solid ${COLOR.borderField}`,
+                    resize: "vertical",
+                  }}
+                />
+                <div style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                  <button
+                    onClick={() => {
+                      setFormNotes((prev) => [
+                        ...prev,
+                        { id: uid(), text: formNoteDraft.trim(), createdAt: Date.now() },
+                      ]);
+                      setFormNoteDraft("");
+                    }}
+                    disabled={!formNoteDraft.trim()}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("notes.add")}
+                  </button>
+                  <span style={{ fontSize: 12, opacity: 0.6 }}>{t("notes.markdownHint")}</span>
+                </div>
+              </div>
+            </div>
+
+            <div style={{ gridColumn: "1 / -1", display: "flex", gap: SPACE.md, justifyContent: "flex-end" }}>
+              <button
+                onClick={closeModal}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.surface,
+                  borderRadius: RADIUS.lg,
+                  padding: PAD.control,
+                  cursor: "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                {t("action.cancel")}
+              </button>
+              <button
+                onClick={submitForm}
+                style={{
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.primary,
+                  color: COLOR.onPrimary,
+                  borderRadius: RADIUS.lg,
+                  padding: PAD.control,
+                  cursor: "pointer",
+                  fontWeight: 800,
+                }}
+              >
+                {t(editingId ? "action.save" : "action.create")}
+              </button>
             </div>
           </div>
+        </Modal>
 
-          <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
-            <select
-              value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
-              style={{
-                padding: "8px 10px",
-                borderRadius: 10,
-                border: "1px solid rgba(0,0,0,0.14)",
-                background: "white",
-              }}
-            >
-              {categories.map((c) => (
-                <option key={c} value={c}>
-                  {c}
-                </option>
-              ))}
-            </select>
+        <Modal
+          open={sectionsOpen}
+          title={t("sections.title")}
+          onClose={() => {
+            setSectionsOpen(false);
+            setDeletingSectionId(null);
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.md }}>
+            <div style={{ fontSize: 13, opacity: 0.75 }}>
+              {t("sections.reminderIntro")}{" "}
+              {notifyPermission === "granted"
+                ? t("sections.notifyOn")
+                : notifyPermission === "denied"
+                  ? t("sections.notifyBlocked")
+                  : notifyPermission === "unsupported"
+                    ? t("sections.notifyUnsupported")
+                    : null}
+              {notifyPermission === "default" ? (
+                <button
+                  onClick={requestNotifications}
+                  style={{
+                    border: `1px solid ${COLOR.border}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.md,
+                    padding: "4px 8px",
+                    cursor: "pointer",
+                    fontWeight: 700,
+                  }}
+                >
+                  {t("notify.enable")}
+                </button>
+              ) : null}
+            </div>
+
+            {sections.map((s, idx) => {
+              const count = tasks.filter((task) => task.section === s.id).length;
+              return (
+                <div key={s.id} style={{ display: "flex", flexDirection: "column", gap: SPACE.sm }}>
+                  <div style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                    <input
+                      type="color"
+                      value={s.color}
+                      onChange={(e) => updateSection(s.id, { color: e.target.value })}
+                      title={t("sections.color")}
+                      style={{ width: 36, height: 36, border: "none", background: "none" }}
+                    />
+                    <input
+                      value={s.name}
+                      onChange={(e) => updateSection(s.id, { name: e.target.value })}
+                      onBlur={(e) =>
+                        updateSection(s.id, {
+                          name: clampStr(e.target.value) || t("common.untitled"),
+                        })
+                      }
+                      style={{
+                        flex: 1,
+                        padding: PAD.field,
+                        borderRadius: RADIUS.md,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                    <input
+                      type="time"
+                      value={s.startTime ?? ""}
+                      onChange={(e) =>
+                        updateSection(s.id, { startTime: e.target.value || undefined })
+                      }
+                      title={t("sections.startTitle")}
+                      aria-label={t("sections.startLabel", { section: s.name })}
+                      style={{
+                        padding: "7px 8px",
+                        borderRadius: RADIUS.md,
+                        border: `1px solid ${COLOR.borderField}`,
+                      }}
+                    />
+                    <span style={{ fontSize: 12, opacity: 0.6, minWidth: 56 }}>
+                      {t("common.taskCount", { count })}
+                    </span>
+                    <button
+                      onClick={() => moveSection(s.id, -1)}
+                      disabled={idx === 0}
+                      title={t("sections.moveLeft")}
+                      style={{
+                        border: `1px solid ${COLOR.border}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                      }}
+                    >
+                      ←
+                    </button>
+                    <button
+                      onClick={() => moveSection(s.id, 1)}
+                      disabled={idx === sections.length - 1}
+                      title={t("sections.moveRight")}
+                      style={{
+                        border: `1px solid ${COLOR.border}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                      }}
+                    >
+                      →
+                    </button>
+                    <button
+                      onClick={() => startDeleteSection(s.id)}
+                      disabled={sections.length <= 1}
+                      style={{
+                        border: `1px solid ${COLOR.dangerBorder}`,
+                        background: COLOR.surface,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                        fontWeight: 700,
+                        color: COLOR.danger,
+                      }}
+                    >
+                      {t("action.delete")}
+                    </button>
+                  </div>
+
+                  {deletingSectionId === s.id ? (
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: SPACE.sm,
+                        fontSize: 13,
+                        paddingLeft: 44,
+                        flexWrap: "wrap",
+                      }}
+                    >
+                      {t("sections.moveTasksTo", { count })}
+                      <select
+                        value={deleteTargetId}
+                        onChange={(e) => setDeleteTargetId(e.target.value)}
+                        style={{
+                          padding: "6px 8px",
+                          borderRadius: RADIUS.md,
+                          border: `1px solid ${COLOR.borderField}`,
+                          background: COLOR.surface,
+                        }}
+                      >
+                        {sections
+                          .filter((x) => x.id !== s.id)
+                          .map((x) => (
+                            <option key={x.id} value={x.id}>
+                              {x.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => deleteSection(s.id, deleteTargetId)}
+                        style={{
+                          border: `1px solid ${COLOR.dangerBorder}`,
+                          background: COLOR.surface,
+                          borderRadius: RADIUS.md,
+                          padding: PAD.small,
+                          cursor: "pointer",
+                          fontWeight: 700,
+                          color: COLOR.danger,
+                        }}
+                      >
+                        {t("sections.moveAndDelete")}
+                      </button>
+                      <button
+                        onClick={() => setDeletingSectionId(null)}
+                        style={{
+                          border: `1px solid ${COLOR.border}`,
+                          background: COLOR.surface,
+                          borderRadius: RADIUS.md,
+                          padding: PAD.small,
+                          cursor: "pointer",
+                        }}
+                      >
+                        {t("action.cancel")}
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+
+            <div>
+              <button
+                onClick={addSection}
+                style={{
+                  padding: PAD.button,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.primary,
+                  color: COLOR.onPrimary,
+                  fontWeight: 700,
+                  cursor: "pointer",
+                }}
+              >
+                {t("sections.add")}
+              </button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal open={syncOpen} title={t("sync.title")} onClose={() => setSyncOpen(false)}>
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.lg }}>
+            <div style={{ fontSize: 13, opacity: 0.75 }}>{t("sync.intro")}</div>
+
+            <label style={{ display: "flex", flexDirection: "column", gap: SPACE.xs }}>
+              <span style={{ fontWeight: 700, fontSize: 13 }}>{t("sync.serverUrl")}</span>
+              <div style={{ display: "flex", gap: SPACE.sm }}>
+                <input
+                  value={endpointDraft}
+                  onChange={(e) => setEndpointDraft(e.target.value)}
+                  placeholder="http://localhost:8787"
+                  style={{
+                    flex: 1,
+                    padding: PAD.field,
+                    borderRadius: RADIUS.md,
+                    border: `1px solid ${COLOR.borderField}`,
+                  }}
+                />
+                {remote.endpoint && remote.endpoint === clampStr(endpointDraft) ? (
+                  <button
+                    onClick={disconnectSync}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("sync.disconnect")}
+                  </button>
+                ) : (
+                  <button
+                    onClick={connectSync}
+                    disabled={!clampStr(endpointDraft)}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.primary,
+                      color: COLOR.onPrimary,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                    }}
+                  >
+                    {t("sync.connect")}
+                  </button>
+                )}
+              </div>
+            </label>
 
-            <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            <label style={{ display: "flex", flexDirection: "column", gap: SPACE.xs }}>
+              <span style={{ fontWeight: 700, fontSize: 13 }}>
+                {t("sync.remoteId", { name: board.name })}
+              </span>
               <input
-                type="checkbox"
-                checked={onlyIncomplete}
-                onChange={(e) => setOnlyIncomplete(e.target.checked)}
+                key={`${board.id}:${activeSync.remoteId}`}
+                defaultValue={activeSync.remoteId}
+                onBlur={(e) => setRemoteBoardId(clampStr(e.target.value))}
+                style={{
+                  padding: PAD.field,
+                  borderRadius: RADIUS.md,
+                  border: `1px solid ${COLOR.borderField}`,
+                }}
               />
-              Show only incomplete
+              <span style={{ fontSize: 12, opacity: 0.6 }}>
+                {t("sync.remoteIdHint")}
+              </span>
             </label>
 
-            <button
-              onClick={openCreate}
-              style={{
-                padding: "9px 12px",
-                borderRadius: 12,
-                border: "1px solid rgba(0,0,0,0.12)",
-                background: "rgba(0,0,0,0.92)",
-                color: "white",
-                fontWeight: 700,
-                cursor: "pointer",
-              }}
-            >
-              + Add Task
-            </button>
-
-            <button
-              onClick={resetAllToIncomplete}
-              style={{
-                padding: "9px 12px",
-                borderRadius: 12,
-                border: "1px solid rgba(0,0,0,0.12)",
-                background: "white",
-                cursor: "pointer",
-              }}
-            >
-              Reset
-            </button>
+            {remote.endpoint ? (
+              <div style={{ display: "flex", alignItems: "center", gap: SPACE.md, fontSize: 13 }}>
+                <span style={{ flex: 1 }}>
+                  {syncState.status === "syncing"
+                    ? t("sync.syncing")
+                    : syncState.status === "offline"
+                      ? t("sync.offlineLong")
+                      : syncState.status === "error"
+                        ? t("sync.failed", { message: syncState.message ?? "" })
+                        : syncState.at
+                          ? t("sync.lastSynced", {
+                              time: new Date(syncState.at).toLocaleTimeString(language),
+                            })
+                          : t("sync.never")}{" "}
+                  {t("sync.queued", { count: pendingCount })}
+                </span>
+                <button
+                  onClick={() => void syncAll()}
+                  disabled={syncState.status === "syncing"}
+                  style={{
+                    border: `1px solid ${COLOR.border}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.md,
+                    padding: PAD.small,
+                    cursor: "pointer",
+                  }}
+                >
+                  {t("sync.now")}
+                </button>
+              </div>
+            ) : null}
 
-            <button
-              onClick={clearAll}
-              style={{
-                padding: "9px 12px",
-                borderRadius: 12,
-                border: "1px solid rgba(255,0,0,0.25)",
-                background: "white",
-                cursor: "pointer",
-                color: "rgb(220, 38, 38)",
-                fontWeight: 700,
-              }}
-            >
-              Clear
-            </button>
+            {conflictCount > 0 ? (
+              <div style={{ display: "flex", flexDirection: "column", gap: SPACE.md }}>
+                <div style={{ fontWeight: 800 }}>{t("sync.conflictsTitle")}</div>
+                {activeSync.conflicts.map((c) => {
+                  const local = tasks.find((task) => task.id === c.taskId);
+                  if (!local) return null;
+                  return (
+                    <div
+                      key={c.taskId}
+                      style={{
+                        border: `1px solid ${COLOR.dangerBorder}`,
+                        borderRadius: RADIUS.lg,
+                        padding: SPACE.md,
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: SPACE.sm,
+                      }}
+                    >
+                      <div style={{ fontWeight: 700 }}>{local.title}</div>
+                      <div style={{ fontSize: 12, opacity: 0.6 }}>
+                        {t("sync.editedHere", {
+                          here: local.updatedAt ? formatDateTime(language, local.updatedAt) : "—",
+                          server: c.remote.updatedAt
+                            ? formatDateTime(language, c.remote.updatedAt)
+                            : "—",
+                        })}
+                      </div>
+                      {c.fields.map((f) => {
+                        const key = `${c.taskId}:${f}`;
+                        return (
+                          <div
+                            key={f}
+                            role="radiogroup"
+                            aria-label={t(SYNC_FIELD_LABELS[f])}
+                            style={{ display: "flex", gap: SPACE.md, fontSize: 13, flexWrap: "wrap" }}
+                          >
+                            <span style={{ fontWeight: 700, minWidth: 80 }}>
+                              {t(SYNC_FIELD_LABELS[f])}
+                            </span>
+                            <label style={{ flex: 1, display: "flex", gap: SPACE.xs }}>
+                              <input
+                                type="radio"
+                                name={key}
+                                checked={conflictChoice[key] !== "remote"}
+                                onChange={() =>
+                                  setConflictChoice((prev) => ({ ...prev, [key]: "local" }))
+                                }
+                              />
+                              <span>
+                                <b>{t("sync.mine")}</b> {syncFieldText(i18n, local, f, sections)}
+                              </span>
+                            </label>
+                            <label style={{ flex: 1, display: "flex", gap: SPACE.xs }}>
+                              <input
+                                type="radio"
+                                name={key}
+                                checked={conflictChoice[key] === "remote"}
+                                onChange={() =>
+                                  setConflictChoice((prev) => ({ ...prev, [key]: "remote" }))
+                                }
+                              />
+                              <span>
+                                <b>{t("sync.server")}</b>{" "}
+                                {syncFieldText(i18n, c.remote, f, sections)}
+                              </span>
+                            </label>
+                          </div>
+                        );
+                      })}
+                      <div>
+                        <button
+                          onClick={() => resolveConflict(c)}
+                          disabled={syncState.status === "syncing"}
+                          style={{
+                            border: `1px solid ${COLOR.border}`,
+                            background: COLOR.primary,
+                            color: COLOR.onPrimary,
+                            borderRadius: RADIUS.md,
+                            padding: PAD.small,
+                            cursor: "pointer",
+                            fontWeight: 700,
+                          }}
+                        >
+                          {t("sync.keepSelected")}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
           </div>
-        </div>
+        </Modal>
 
-        {/* Board */}
-        <DndContext
-          sensors={sensors}
-          collisionDetection={closestCenter}
-          onDragEnd={onDragEnd}
+        <Modal
+          open={templatesOpen}
+          title={t("templates.title")}
+          onClose={() => setTemplatesOpen(false)}
         >
-          <div
-            style={{
-              display: "grid",
-              gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
-              gap: 12,
-            }}
-          >
-            {sections.map((s) => {
-              const list = filteredTasks.filter((t) => t.section === s);
-              const st = sectionStats[s];
-
-              return (
-                <div
-                  key={s}
-                  style={{
-                    background: "black",
-                    borderRadius: 18,
-                    padding: 12,
-                    border: "1px solid rgba(0,0,0,0.06)",
-                    boxShadow: "0 8px 22px rgba(0,0,0,0.05)",
-                    display: "flex",
-                    flexDirection: "column",
-                    minHeight: 360,
-                  }}
-                >
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xl }}>
+            <div style={{ display: "flex", flexDirection: "column", gap: SPACE.sm }}>
+              {[...BUILTIN_TEMPLATES, ...templates].map((tpl) => {
+                const plan = templatePlan(data, tpl);
+                return (
                   <div
+                    key={tpl.id}
                     style={{
+                      border: `1px solid ${COLOR.borderSubtle}`,
+                      borderRadius: RADIUS.lg,
+                      padding: SPACE.md,
                       display: "flex",
                       alignItems: "center",
-                      justifyContent: "space-between",
-                      gap: 10,
-                      marginBottom: 10,
+                      gap: SPACE.md,
                     }}
                   >
-                    <div>
-                      <div style={{ fontSize: 16, fontWeight: 900 }}>{sectionLabel(s)}</div>
-                      <div style={{ fontSize: 13, opacity: 0.7 }}>
-                        {st.done}/{st.total} done • {st.pct}%
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: 800 }}>
+                        {tpl.name}
+                        {tpl.builtIn ? (
+                          <span style={{ fontSize: 12, fontWeight: 400, opacity: 0.6 }}>
+                            {" "}
+                            · {t("templates.builtIn")}
+                          </span>
+                        ) : null}
                       </div>
+                      <div style={{ fontSize: 12, opacity: 0.7 }}>
+                        {tpl.tasks.map((task) => task.title).join(", ")}
+                      </div>
+                      {plan.skipped > 0 ? (
+                        <div style={{ fontSize: 12, opacity: 0.6 }}>
+                          {t("templates.skipped", { count: plan.skipped })}
+                        </div>
+                      ) : null}
                     </div>
-                    <div style={{ fontSize: 18, fontWeight: 900 }}>{st.pct}%</div>
-                  </div>
-
-                  {list.length === 0 ? (
-                    <div style={{ fontSize: 13, opacity: 0.6, padding: 10 }}>
-                      No tasks here (with current filters).
-                    </div>
-                  ) : (
-                    <SortableContext
-                      items={list.map((t) => t.id)}
-                      strategy={verticalListSortingStrategy}
+                    <button
+                      onClick={() => applyTemplateToBoard(tpl)}
+                      disabled={plan.toAdd.length === 0}
+                      style={{
+                        border: `1px solid ${COLOR.border}`,
+                        background: COLOR.primary,
+                        color: COLOR.onPrimary,
+                        borderRadius: RADIUS.md,
+                        padding: PAD.small,
+                        cursor: "pointer",
+                        fontWeight: 700,
+                        whiteSpace: "nowrap",
+                      }}
                     >
-                      <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
-                        {list.map((t) => (
-                          <SortableTaskCard key={t.id} id={t.id}>
-                            <div
-                              style={{
-                                border: "1px solid rgba(0,0,0,0.10)",
-                                borderRadius: 16,
-                                padding: 12,
-                                display: "flex",
-                                flexDirection: "column",
-                                gap: 10,
-                                background: "white",
-                              }}
-                            >
-                              <div style={{ display: "flex", alignItems: "flex-start", gap: 10 }}>
-                                <input
-                                  type="checkbox"
-                                  checked={t.done}
-                                  onChange={() => toggleDone(t.id)}
-                                  style={{ marginTop: 4 }}
-                                />
-
-                                <div style={{ flex: 1 }}>
-                                  <div
-                                    style={{
-                                      fontWeight: 800,
-                                      textDecoration: t.done ? "line-through" : "none",
-                                      opacity: t.done ? 0.65 : 1,
-                                    }}
-                                  >
-                                    {t.title}
-                                  </div>
-
-                                  <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
-                                    {t.category ? (
-                                      <span
-                                        style={{
-                                          fontSize: 12,
-                                          padding: "3px 8px",
-                                          borderRadius: 999,
-                                          border: "1px solid rgba(0,0,0,0.12)",
-                                          opacity: 0.85,
-                                        }}
-                                      >
-                                        {t.category}
-                                      </span>
-                                    ) : null}
-
-                                    <span style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
-                                      {t.done ? <IconCheck /> : <IconX />}
-                                      <span style={{ fontSize: 12, opacity: 0.75 }}>
-                                        {t.done ? "Completed" : "Not done"}
-                                      </span>
-                                    </span>
-                                  </div>
-
-                                  {t.comment ? (
-                                    <div style={{ marginTop: 8, fontSize: 13, opacity: 0.85 }}>
-                                      💬 {t.comment}
-                                    </div>
-                                  ) : (
-                                    <div style={{ marginTop: 8, fontSize: 13, opacity: 0.5 }}>
-                                      💬 No comment
-                                    </div>
-                                  )}
-                                </div>
-
-                                <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
-                                  <button
-                                    onClick={() => openEdit(t)}
-                                    style={{
-                                      border: "1px solid rgba(0,0,0,0.12)",
-                                      background: "white",
-                                      borderRadius: 10,
-                                      padding: "6px 10px",
-                                      cursor: "pointer",
-                                      fontWeight: 700,
-                                    }}
-                                  >
-                                    Edit
-                                  </button>
-                                  <button
-                                    onClick={() => removeTask(t.id)}
-                                    style={{
-                                      border: "1px solid rgba(255,0,0,0.25)",
-                                      background: "white",
-                                      borderRadius: 10,
-                                      padding: "6px 10px",
-                                      cursor: "pointer",
-                                      fontWeight: 700,
-                                      color: "rgb(220, 38, 38)",
-                                    }}
-                                  >
-                                    Delete
-                                  </button>
-                                </div>
-                              </div>
-                            </div>
-                          </SortableTaskCard>
-                        ))}
-                      </div>
-                    </SortableContext>
-                  )}
-                </div>
-              );
-            })}
-          </div>
-        </DndContext>
+                      {plan.toAdd.length === 0
+                        ? t("templates.applied")
+                        : t("templates.add", { count: plan.toAdd.length })}
+                    </button>
+                    {tpl.builtIn ? null : (
+                      <button
+                        onClick={() => deleteTemplate(tpl.id)}
+                        style={{
+                          border: `1px solid ${COLOR.dangerBorder}`,
+                          background: COLOR.surface,
+                          borderRadius: RADIUS.md,
+                          padding: PAD.small,
+                          cursor: "pointer",
+                          fontWeight: 700,
+                          color: COLOR.danger,
+                        }}
+                      >
+                        {t("action.delete")}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
 
-        <Modal
-          open={modalOpen}
-          title={editingId ? "Edit task" : "Add task"}
-          onClose={closeModal}
-        >
-          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-            <div style={{ gridColumn: "1 / -1" }}>
-              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>Title *</div>
+            <div style={{ fontWeight: 800 }}>{t("templates.saveTitle")}</div>
+            {tasks.length === 0 ? (
+              <div style={{ fontSize: 13, opacity: 0.6 }}>{t("templates.noTasks")}</div>
+            ) : (
+              <div
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: SPACE.xxs,
+                  maxHeight: 220,
+                  overflowY: "auto",
+                }}
+              >
+                {sections.map((s) =>
+                  tasks
+                    .filter((task) => task.section === s.id)
+                    .sort(compareOrder)
+                    .map((task) => (
+                      <label
+                        key={task.id}
+                        style={{ display: "flex", alignItems: "center", gap: SPACE.sm, fontSize: 13 }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={templateSelection.includes(task.id)}
+                          onChange={(e) =>
+                            setTemplateSelection((prev) =>
+                              e.target.checked
+                                ? [...prev, task.id]
+                                : prev.filter((x) => x !== task.id)
+                            )
+                          }
+                        />
+                        <span style={{ opacity: 0.6 }}>{s.name} ·</span> {task.title}
+                      </label>
+                    ))
+                )}
+              </div>
+            )}
+            <div style={{ display: "flex", gap: SPACE.sm }}>
               <input
-                value={formTitle}
-                onChange={(e) => setFormTitle(e.target.value)}
-                placeholder="e.g. Gym / Study / Call…"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder={t("templates.namePlaceholder")}
                 style={{
-                  width: "100%",
-                  padding: "10px 12px",
-                  borderRadius: 12,
-                  border: "1px solid rgba(0,0,0,0.14)",
+                  flex: 1,
+                  padding: PAD.field,
+                  borderRadius: RADIUS.md,
+                  border: `1px solid ${COLOR.borderField}`,
                 }}
               />
+              <button
+                onClick={saveTemplate}
+                disabled={!clampStr(templateName) || templateSelection.length === 0}
+                style={{
+                  padding: PAD.button,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.primary,
+                  color: COLOR.onPrimary,
+                  fontWeight: 700,
+                  cursor: "pointer",
+                }}
+              >
+                {templateSelection.length
+                  ? t("templates.saveCards", { count: templateSelection.length })
+                  : t("templates.saveNone")}
+              </button>
             </div>
+          </div>
+        </Modal>
+
+        <Modal open={boardsOpen} title={t("header.boards")} onClose={() => setBoardsOpen(false)}>
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.md }}>
+            {boards.map((b) => {
+              const count = b.data.tasks.length;
+              return (
+                <div key={b.id} style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                  <input
+                    type="radio"
+                    name="active-board"
+                    checked={b.id === board.id}
+                    onChange={() => switchBoard(b.id)}
+                    title={t("boards.open")}
+                  />
+                  <input
+                    value={b.name}
+                    onChange={(e) => renameBoard(b.id, e.target.value)}
+                    onBlur={(e) =>
+                      renameBoard(b.id, clampStr(e.target.value) || t("common.untitled"))
+                    }
+                    style={{
+                      flex: 1,
+                      padding: PAD.field,
+                      borderRadius: RADIUS.md,
+                      border: `1px solid ${COLOR.borderField}`,
+                    }}
+                  />
+                  <span style={{ fontSize: 12, opacity: 0.6, minWidth: 56 }}>
+                    {t("common.taskCount", { count })}
+                  </span>
+                  <button
+                    onClick={() => duplicateBoard(b.id)}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {t("boards.duplicate")}
+                  </button>
+                  <button
+                    onClick={() => deleteBoard(b.id)}
+                    disabled={boards.length <= 1}
+                    style={{
+                      border: `1px solid ${COLOR.dangerBorder}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                      color: COLOR.danger,
+                    }}
+                  >
+                    {t("action.delete")}
+                  </button>
+                </div>
+              );
+            })}
 
             <div>
-              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>Section</div>
-              <select
-                value={formSection}
-                onChange={(e) => setFormSection(e.target.value as Section)}
+              <button
+                onClick={addBoard}
                 style={{
-                  width: "100%",
-                  padding: "10px 12px",
-                  borderRadius: 12,
-                  border: "1px solid rgba(0,0,0,0.14)",
-                  background: "white",
+                  padding: PAD.button,
+                  borderRadius: RADIUS.lg,
+                  border: `1px solid ${COLOR.border}`,
+                  background: COLOR.primary,
+                  color: COLOR.onPrimary,
+                  fontWeight: 700,
+                  cursor: "pointer",
                 }}
               >
-                <option value="Morning">Morning</option>
-                <option value="Midday">Midday</option>
-                <option value="AfterWork">After Work</option>
-              </select>
+                {t("boards.add")}
+              </button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal
+          open={dataOpen}
+          title={t("header.importExport")}
+          onClose={() => {
+            setDataOpen(false);
+            setImportPreview(null);
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xl, fontSize: 13 }}>
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("data.export")}
+              </div>
+              <div style={{ display: "flex", gap: SPACE.md, flexWrap: "wrap" }}>
+                <button
+                  onClick={exportJson}
+                  style={{
+                    border: `1px solid ${COLOR.border}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.lg,
+                    padding: PAD.control,
+                    cursor: "pointer",
+                    fontWeight: 700,
+                  }}
+                >
+                  {t("data.exportJson")}
+                </button>
+                <button
+                  onClick={exportCsv}
+                  style={{
+                    border: `1px solid ${COLOR.border}`,
+                    background: COLOR.surface,
+                    borderRadius: RADIUS.lg,
+                    padding: PAD.control,
+                    cursor: "pointer",
+                    fontWeight: 700,
+                  }}
+                >
+                  {t("data.exportCsv")}
+                </button>
+              </div>
+              <div style={{ marginTop: SPACE.xs, opacity: 0.6 }}>
+                {t("data.exportHint")}
+              </div>
             </div>
 
             <div>
-              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>Category</div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                {t("data.import")}
+              </div>
               <input
-                value={formCategory}
-                onChange={(e) => setFormCategory(e.target.value)}
-                placeholder="e.g. Sport / Study / Work"
-                style={{
-                  width: "100%",
-                  padding: "10px 12px",
-                  borderRadius: 12,
-                  border: "1px solid rgba(0,0,0,0.14)",
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void pickImportFile(file);
+                  e.target.value = "";
                 }}
               />
             </div>
 
-            <div style={{ gridColumn: "1 / -1" }}>
-              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>Comment</div>
-              <textarea
-                value={formComment}
-                onChange={(e) => setFormComment(e.target.value)}
-                placeholder="Write a quick note about this task…"
-                rows={4}
+            {importPreview ? (
+              <div
                 style={{
-                  width: "100%",
-                  padding: "10px 12px",
-                  borderRadius: 12,
-                  border: "1px solid rgba(0,0,0,0.14)",
-                  resize: "vertical",
+                  border: `1px solid ${COLOR.borderSubtle}`,
+                  borderRadius: RADIUS.lg,
+                  padding: SPACE.lg,
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: SPACE.sm,
                 }}
-              />
+              >
+                <div style={{ fontWeight: 800 }}>{importPreview.fileName}</div>
+                <div>
+                  {t("data.validTasks", { count: importPreview.tasks.length })}
+                  {importPreview.format === "json"
+                    ? t("data.historyDays", { count: importPreview.history.length })
+                    : ""}
+                  {importPreview.newSections.length > 0
+                    ? t("data.newSections", {
+                        names: importPreview.newSections.map((s) => s.name).join(", "),
+                      })
+                    : ""}
+                </div>
+
+                {importPreview.tasks.length > 0 ? (
+                  <ul style={{ margin: 0, paddingLeft: 18, maxHeight: 140, overflow: "auto" }}>
+                    {importPreview.tasks.slice(0, 50).map((task) => (
+                      <li key={task.id}>
+                        {task.title}{" "}
+                        <span style={{ opacity: 0.6 }}>
+                          ({sectionName([...sections, ...importPreview.sections], task.section)}
+                          {task.done ? t("data.done") : ""})
+                        </span>
+                      </li>
+                    ))}
+                    {importPreview.tasks.length > 50 ? (
+                      <li style={{ opacity: 0.6 }}>
+                        {t("data.more", { count: importPreview.tasks.length - 50 })}
+                      </li>
+                    ) : null}
+                  </ul>
+                ) : null}
+
+                {importPreview.errors.length > 0 ? (
+                  <div style={{ color: COLOR.danger }}>
+                    <div style={{ fontWeight: 700 }}>
+                      {t("data.rowsSkipped", { count: importPreview.errors.length })}
+                    </div>
+                    <ul style={{ margin: 0, paddingLeft: 18, maxHeight: 120, overflow: "auto" }}>
+                      {importPreview.errors.map((err, i) => (
+                        <li key={i}>{err}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+
+                <div style={{ display: "flex", gap: SPACE.xl, flexWrap: "wrap" }}>
+                  <label style={{ display: "flex", alignItems: "center", gap: SPACE.xs }}>
+                    <input
+                      type="radio"
+                      checked={importMode === "merge"}
+                      onChange={() => setImportMode("merge")}
+                    />
+                    {t("data.merge")}
+                  </label>
+                  <label style={{ display: "flex", alignItems: "center", gap: SPACE.xs }}>
+                    <input
+                      type="radio"
+                      checked={importMode === "replace"}
+                      onChange={() => setImportMode("replace")}
+                    />
+                    {t("data.replace")}
+                  </label>
+                </div>
+
+                <div style={{ display: "flex", gap: SPACE.md, justifyContent: "flex-end" }}>
+                  <button
+                    onClick={() => setImportPreview(null)}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.lg,
+                      padding: PAD.control,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                    }}
+                  >
+                    {t("action.cancel")}
+                  </button>
+                  <button
+                    onClick={applyImport}
+                    disabled={importPreview.tasks.length === 0 && importMode === "merge"}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: COLOR.primary,
+                      color: COLOR.onPrimary,
+                      borderRadius: RADIUS.lg,
+                      padding: PAD.control,
+                      cursor: "pointer",
+                      fontWeight: 800,
+                    }}
+                  >
+                    {t("data.import")}
+                  </button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+        </Modal>
+
+        <Modal open={tagsOpen} title={t("tags.title")} onClose={() => setTagsOpen(false)}>
+          <div style={{ display: "flex", flexDirection: "column", gap: SPACE.md, fontSize: 13 }}>
+            {data.tags.length === 0 ? (
+              <div style={{ opacity: 0.6 }}>{t("tags.empty")}</div>
+            ) : null}
+            {data.tags.map((tag) => {
+              const count = tasks.filter((task) =>
+                task.tags?.some((x) => sameTag(x, tag.name))
+              ).length;
+              return (
+                <div key={tag.name} style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                  <input
+                    type="color"
+                    value={tag.color}
+                    onChange={(e) => setTagColor(tag.name, e.target.value)}
+                    title={t("tags.color")}
+                    style={{ width: 36, height: 36, border: "none", background: "none" }}
+                  />
+                  <input
+                    defaultValue={tag.name}
+                    onBlur={(e) => {
+                      renameTag(tag.name, e.target.value);
+                      e.target.value = tag.name;
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    title={t("tags.rename")}
+                    style={{
+                      flex: 1,
+                      padding: PAD.field,
+                      borderRadius: RADIUS.md,
+                      border: `1px solid ${COLOR.borderField}`,
+                    }}
+                  />
+                  <span style={{ fontSize: 12, opacity: 0.6, minWidth: 56 }}>
+                    {t("common.taskCount", { count })}
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) renameTag(tag.name, e.target.value);
+                    }}
+                    disabled={data.tags.length < 2}
+                    style={{
+                      padding: PAD.field,
+                      borderRadius: RADIUS.md,
+                      border: `1px solid ${COLOR.borderField}`,
+                      background: COLOR.surface,
+                    }}
+                  >
+                    <option value="">{t("tags.mergeInto")}</option>
+                    {data.tags
+                      .filter((x) => x.name !== tag.name)
+                      .map((x) => (
+                        <option key={x.name} value={x.name}>
+                          {x.name}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => deleteTag(tag.name)}
+                    style={{
+                      border: `1px solid ${COLOR.dangerBorder}`,
+                      background: COLOR.surface,
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                      color: COLOR.danger,
+                    }}
+                  >
+                    {t("action.delete")}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </Modal>
+
+        <Modal open={statsOpen} title={t("stats.title")} onClose={() => setStatsOpen(false)}>
+          {stats ? (
+            <div style={{ display: "flex", flexDirection: "column", gap: SPACE.xxl, fontSize: 13 }}>
+              <div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                  {t("stats.daily")}
+                </div>
+                <ProgressHeatmap values={stats.daily} today={today} />
+              </div>
+
+              <div style={{ display: "flex", alignItems: "center", gap: SPACE.sm }}>
+                <span style={{ opacity: 0.7 }}>{t("stats.rangeLabel")}</span>
+                {([7, 30, 90] as const).map((r) => (
+                  <button
+                    key={r}
+                    onClick={() => setStatsRange(r)}
+                    style={{
+                      border: `1px solid ${COLOR.border}`,
+                      background: statsRange === r ? COLOR.primary : COLOR.surface,
+                      color: statsRange === r ? COLOR.onPrimary : "inherit",
+                      borderRadius: RADIUS.md,
+                      padding: PAD.small,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                    }}
+                  >
+                    {t("stats.range", { count: r })}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                  {t("stats.bySection")}
+                </div>
+                <RateBars rows={stats.sectionRows} />
+              </div>
+
+              <div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                  {t("stats.byTag")}
+                </div>
+                <RateBars rows={stats.tagRows} />
+              </div>
+
+              <div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: SPACE.xs }}>
+                  {t("stats.streaks")}
+                </div>
+                {stats.streaks.length === 0 ? (
+                  <div style={{ opacity: 0.6 }}>{t("stats.noTasks")}</div>
+                ) : (
+                  <div style={{ maxHeight: 220, overflow: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", opacity: 0.7 }}>
+                          <th style={{ padding: "4px 6px" }}>{t("stats.task")}</th>
+                          <th style={{ padding: "4px 6px" }}>{t("stats.current")}</th>
+                          <th style={{ padding: "4px 6px" }}>{t("stats.best")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.streaks.map(({ task, current, best }) => (
+                          <tr key={task.id} style={{ borderTop: `1px solid ${COLOR.borderSubtle}` }}>
+                            <td style={{ padding: "4px 6px" }}>{task.title}</td>
+                            <td style={{ padding: "4px 6px", fontWeight: 800 }}>
+                              {current > 0 ? `🔥 ${current}` : "0"}
+                            </td>
+                            <td style={{ padding: "4px 6px" }}>{best}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
             </div>
+          ) : null}
+        </Modal>
 
-            <div style={{ gridColumn: "1 / -1", display: "flex", gap: 10, justifyContent: "flex-end" }}>
+        {waitingWorker ? (
+          <div
+            role="status"
+            style={{
+              position: "fixed",
+              left: "50%",
+              top: 16,
+              transform: "translateX(-50%)",
+              background: COLOR.primary,
+              color: COLOR.onPrimary,
+              borderRadius: RADIUS.lg,
+              padding: PAD.wide,
+              display: "flex",
+              alignItems: "center",
+              gap: SPACE.xl,
+              fontSize: 14,
+              boxShadow: `0 16px 40px ${COLOR.shadowStrong}`,
+              zIndex: 10000,
+            }}
+          >
+            <span>{t("update.available")}</span>
+            <button
+              onClick={applyUpdate}
+              style={{
+                border: `1px solid ${COLOR.onPrimaryBorder}`,
+                background: "transparent",
+                color: COLOR.onPrimary,
+                borderRadius: RADIUS.md,
+                padding: PAD.small,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              {t("update.reload")}
+            </button>
+            <button
+              onClick={() => setWaitingWorker(null)}
+              aria-label={t("action.dismiss")}
+              style={{
+                border: "none",
+                background: "transparent",
+                color: COLOR.onPrimary,
+                cursor: "pointer",
+                opacity: 0.7,
+              }}
+            >
+              <IconX />
+            </button>
+          </div>
+        ) : null}
+
+        {toast ? (
+          <div
+            key={toast.id}
+            role="status"
+            style={{
+              position: "fixed",
+              left: "50%",
+              bottom: 24,
+              transform: "translateX(-50%)",
+              background: COLOR.primary,
+              color: COLOR.onPrimary,
+              borderRadius: RADIUS.lg,
+              padding: PAD.wide,
+              display: "flex",
+              alignItems: "center",
+              gap: SPACE.xl,
+              fontSize: 14,
+              boxShadow: `0 16px 40px ${COLOR.shadowStrong}`,
+              zIndex: 10000,
+            }}
+          >
+            <span>{toast.message}</span>
+            {toast.undoable ? (
               <button
-                onClick={closeModal}
-                style={{
-                  border: "1px solid rgba(0,0,0,0.12)",
-                  background: "black",
-                  borderRadius: 12,
-                  padding: "10px 12px",
-                  cursor: "pointer",
-                  fontWeight: 700,
+                onClick={() => {
+                  undo();
+                  setToast(null);
                 }}
-              >
-                Cancel
-              </button>
-              <button
-                onClick={submitForm}
                 style={{
-                  border: "1px solid rgba(0,0,0,0.12)",
-                  background: "rgba(0,0,0,0.92)",
-                  color: "white",
-                  borderRadius: 12,
-                  padding: "10px 12px",
+                  border: `1px solid ${COLOR.onPrimaryBorder}`,
+                  background: "transparent",
+                  color: COLOR.onPrimary,
+                  borderRadius: RADIUS.md,
+                  padding: PAD.small,
                   cursor: "pointer",
                   fontWeight: 800,
                 }}
               >
-                {editingId ? "Save" : "Create"}
+                {t("toast.undo")}
               </button>
-            </div>
+            ) : null}
           </div>
-        </Modal>
+        ) : null}
 
         <div style={{ fontSize: 12, opacity: 0.6, textAlign: "center", paddingBottom: 12 }}>
-          Saved locally in your browser (localStorage).
+          {t("footer.note")}
         </div>
       </div>
 
@@ -0,0 +1,61 @@
+// Service worker : précache des fichiers du build, version par build.
+// VERSION et PRECACHE sont ajoutés en tête du fichier par le plugin de vite.config.ts.
+/* global VERSION, PRECACHE */
+
+const CACHE = `journey-board-${VERSION}`;
+const INDEX = new URL("index.html", self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE.map((p) => new URL(p, self.registration.scope))))
+  );
+  // pas de skipWaiting ici : l'application propose de recharger
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((k) => k.startsWith("journey-board-") && k !== CACHE)
+            .map((k) => caches.delete(k))
+        )
+      )
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET" || new URL(req.url).origin !== self.location.origin) return;
+
+  // Navigation : toujours la page en cache, l'application tourne hors ligne
+  if (req.mode === "navigate") {
+    event.respondWith(caches.match(INDEX).then((cached) => cached ?? fetch(req)));
+    return;
+  }
+
+  // Fichiers du build : depuis le cache ; le reste (API de synchro…) passe au réseau
+  event.respondWith(caches.match(req).then((cached) => cached ?? fetch(req)));
+});
+
+// Rappels : les actions de la notification sont relayées à l'application ouverte
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const reminder = event.notification.data;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((list) => {
+      const client = list[0];
+      if (!client) return self.clients.openWindow(self.registration.scope);
+      if (event.action) client.postMessage({ type: "REMINDER_ACTION", action: event.action, reminder });
+      return client.focus();
+    })
+  );
+});
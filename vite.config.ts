@@ -1,7 +1,39 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Émet sw.js au build : src/service-worker.js précédé de la liste des fichiers à précacher
+// et d'une version tirée de leur contenu (un nouveau build = un nouveau service worker)
+function serviceWorker(): Plugin {
+  return {
+    name: 'journey-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256')
+      const files: string[] = []
+      for (const [fileName, output] of Object.entries(bundle)) {
+        files.push(fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+      for (const fileName of readdirSync('public')) {
+        files.push(fileName)
+        hash.update(readFileSync(`public/${fileName}`))
+      }
+      const template = readFileSync('src/service-worker.js', 'utf8')
+      hash.update(template)
+      const version = hash.digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `const VERSION = ${JSON.stringify(version)};\nconst PRECACHE = ${JSON.stringify(files.sort())};\n\n${template}`,
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })